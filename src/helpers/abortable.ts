@@ -0,0 +1,85 @@
+/**
+ * Creates an AbortController that is aborted when the parent signal aborts.
+ * @param parentSignal - The signal to derive from.
+ * @returns The child controller, and a dispose function to detach it from the parent once it is no longer needed.
+ */
+export const createChildAbortController = (
+	parentSignal: AbortSignal
+): { controller: AbortController; dispose: () => void } => {
+	const controller = new AbortController();
+	const onParentAbort = () => controller.abort(parentSignal.reason);
+
+	if (parentSignal.aborted) {
+		onParentAbort();
+	} else {
+		parentSignal.addEventListener('abort', onParentAbort, { once: true });
+	}
+
+	return {
+		controller,
+		dispose: () => parentSignal.removeEventListener('abort', onParentAbort),
+	};
+};
+
+/**
+ * Checks if the error was thrown because a timeout of `runWithChildSignal` elapsed.
+ */
+export const isTimeoutError = (error: unknown): boolean => {
+	return error instanceof Error && error.name === 'TimeoutError';
+};
+
+/**
+ * Runs the function with a child AbortSignal derived from the parent signal.
+ * The child signal is aborted when the parent aborts or when the timeout elapses. The returned promise rejects as soon as
+ * the child signal aborts, even if the function does not react to the signal, so a hung function can't block the caller.
+ * @param parentSignal - The signal to derive from.
+ * @param timeoutMs - The timeout in milliseconds.  0 disables the timeout.
+ * @param fn - The function to run.  It should pass the signal on to the work it starts.
+ * @returns The result of the function.
+ */
+export const runWithChildSignal = async <T>(
+	parentSignal: AbortSignal,
+	timeoutMs: number,
+	fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+	const { controller, dispose } = createChildAbortController(parentSignal);
+	const { signal } = controller;
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	if (timeoutMs > 0) {
+		timer = setTimeout(() => {
+			const timeoutError = new Error(`Timed out after ${timeoutMs}ms`);
+			timeoutError.name = 'TimeoutError';
+			controller.abort(timeoutError);
+		}, timeoutMs);
+	}
+
+	let onAbort: (() => void) | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		onAbort = () => {
+			const reason = signal.reason;
+			if (isTimeoutError(reason)) {
+				reject(reason);
+			} else {
+				reject(new Error(`Aborted: ${reason instanceof Error ? reason.message : String(reason ?? 'signal aborted')}`));
+			}
+		};
+		if (signal.aborted) {
+			onAbort();
+		} else {
+			signal.addEventListener('abort', onAbort, { once: true });
+		}
+	});
+	// the race settles the caller, this only prevents an unhandled rejection if the signal aborts after the race is done
+	aborted.catch(() => {});
+
+	try {
+		return await Promise.race([fn(signal), aborted]);
+	} finally {
+		clearTimeout(timer);
+		if (onAbort) {
+			signal.removeEventListener('abort', onAbort);
+		}
+		dispose();
+	}
+};
@@ -0,0 +1,80 @@
+export type AdaptiveConcurrencyOptions = {
+	minConcurrency: number;
+	maxConcurrency: number;
+	initialConcurrency: number;
+	/**
+	 * A success slower than the average latency multiplied by this factor counts as a slow down
+	 */
+	latencyTolerance?: number;
+	/**
+	 * Concurrency is multiplied by this factor when an item fails or slows down
+	 */
+	decreaseFactor?: number;
+	onChange?: (concurrency: number) => void;
+};
+
+export type AdaptiveConcurrencyController = {
+	readonly concurrency: number;
+	recordSuccess: (durationMs: number) => void;
+	recordFailure: () => void;
+};
+
+/**
+ * Creates an AIMD (additive increase, multiplicative decrease) concurrency controller.
+ * Concurrency grows by 1 after a full window of successes at a stable latency, and is cut when an item fails or is slow.
+ * After a cut, further cuts are ignored until a full window of items has completed, so one burst of failures only cuts once.
+ */
+export const createAdaptiveConcurrencyController = (
+	options: AdaptiveConcurrencyOptions
+): AdaptiveConcurrencyController => {
+	const minConcurrency = Math.max(1, Math.floor(options.minConcurrency));
+	const maxConcurrency = Math.max(minConcurrency, Math.floor(options.maxConcurrency));
+	const latencyTolerance = options.latencyTolerance ?? 1.5;
+	const decreaseFactor = options.decreaseFactor ?? 0.5;
+
+	let concurrency = Math.min(Math.max(Math.floor(options.initialConcurrency), minConcurrency), maxConcurrency);
+	let averageLatency: number | null = null;
+	let successesInWindow = 0;
+	let completedSinceDecrease = Number.POSITIVE_INFINITY;
+
+	const setConcurrency = (next: number) => {
+		const clamped = Math.min(Math.max(Math.floor(next), minConcurrency), maxConcurrency);
+		if (clamped !== concurrency) {
+			concurrency = clamped;
+			options.onChange?.(concurrency);
+		}
+	};
+
+	const decrease = () => {
+		successesInWindow = 0;
+		if (completedSinceDecrease < concurrency) {
+			return;
+		}
+		completedSinceDecrease = 0;
+		setConcurrency(concurrency * decreaseFactor);
+	};
+
+	return {
+		get concurrency() {
+			return concurrency;
+		},
+		recordSuccess(durationMs: number) {
+			completedSinceDecrease++;
+			const isSlow = averageLatency != null && durationMs > averageLatency * latencyTolerance;
+			averageLatency = averageLatency == null ? durationMs : averageLatency * 0.8 + durationMs * 0.2;
+			if (isSlow) {
+				decrease();
+				return;
+			}
+			successesInWindow++;
+			if (successesInWindow >= concurrency) {
+				successesInWindow = 0;
+				setConcurrency(concurrency + 1);
+			}
+		},
+		recordFailure() {
+			completedSinceDecrease++;
+			decrease();
+		},
+	};
+};
@@ -0,0 +1,104 @@
+import type { Outputs } from '@ironclad/rivet-core';
+import { compressObject, decompressObject } from './lzObject.js';
+import { createDigest } from './createDigest.js';
+import { parse, stringify } from 'superjson';
+
+export type CheckpointStorage = {
+	/**
+	 * Compressed outputs of the completed items, keyed by item index
+	 */
+	completed: Map<number, string>;
+	expiryTimestamp: number;
+};
+
+/**
+ * The id is the run key of the checkpoint
+ */
+const checkpointMap: Map<string, CheckpointStorage> = new Map();
+/**
+ * Pending writes to localStorage, so a checkpoint is written at most once per second while items complete
+ */
+const persistTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+const CHECKPOINT_EXPIRY_MS = 24 * 60 * 60 * 1000; /** 24 hours */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Creates the run key of a checkpoint.  The same graph with the same inputs resumes from the same checkpoint.
+ * @param graphDigest - The digest of the graph, so a changed graph starts over.
+ * @param inputsDigest - The digest of the input array.
+ * @returns The run key.
+ */
+export const createCheckpointRunKey = async (graphDigest: string, inputsDigest: string): Promise<string> => {
+	return await createDigest(`${graphDigest}:${inputsDigest}`);
+};
+
+/**
+ * Retrieves or creates the checkpoint for the run key.  Checkpoints are persisted to localStorage, so they survive a restart.
+ * @param runKey - The run key of the checkpoint.
+ * @returns The checkpoint.
+ */
+export const getCheckpointStorage = (runKey: string): CheckpointStorage => {
+	let checkpoint = checkpointMap.get(runKey);
+	if (checkpoint == null) {
+		const ls = globalThis.localStorage?.getItem?.(`checkpoint-${runKey}`);
+		checkpoint = ls == null ? undefined : (parse(ls) as CheckpointStorage);
+	}
+	if (checkpoint == null || checkpoint.expiryTimestamp < Date.now()) {
+		checkpoint = {
+			completed: new Map<number, string>(),
+			expiryTimestamp: Date.now() + CHECKPOINT_EXPIRY_MS,
+		};
+	}
+
+	checkpointMap.set(runKey, checkpoint);
+	return checkpoint;
+};
+
+export const getCheckpointItem = (checkpoint: CheckpointStorage, index: number): Outputs | null => {
+	const compressed = checkpoint.completed.get(index);
+	return compressed ? decompressObject<Outputs>(compressed) : null;
+};
+
+/**
+ * Saves the outputs of a completed item.  The checkpoint is written to localStorage shortly after.
+ */
+export const setCheckpointItem = (
+	runKey: string,
+	checkpoint: CheckpointStorage,
+	index: number,
+	item: Outputs
+): void => {
+	checkpoint.completed.set(index, compressObject(item));
+	checkpoint.expiryTimestamp = Date.now() + CHECKPOINT_EXPIRY_MS;
+
+	if (!persistTimers.has(runKey)) {
+		persistTimers.set(
+			runKey,
+			setTimeout(() => flushCheckpoint(runKey), PERSIST_DELAY_MS)
+		);
+	}
+};
+
+/**
+ * Writes the checkpoint to localStorage now, instead of waiting for the pending write.
+ */
+export const flushCheckpoint = (runKey: string): void => {
+	clearTimeout(persistTimers.get(runKey));
+	persistTimers.delete(runKey);
+
+	const checkpoint = checkpointMap.get(runKey);
+	if (checkpoint != null) {
+		globalThis.localStorage?.setItem?.(`checkpoint-${runKey}`, stringify(checkpoint));
+	}
+};
+
+/**
+ * Deletes the checkpoint, for example once every item of the run has completed.
+ */
+export const clearCheckpoint = (runKey: string): void => {
+	clearTimeout(persistTimers.get(runKey));
+	persistTimers.delete(runKey);
+	checkpointMap.delete(runKey);
+	globalThis.localStorage?.removeItem?.(`checkpoint-${runKey}`);
+};
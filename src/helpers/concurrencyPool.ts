@@ -0,0 +1,173 @@
+import type { DataValue } from '@ironclad/rivet-core';
+
+export type ConcurrencySlot = {
+	release: () => void;
+};
+
+export type ConcurrencyLimiter = {
+	readonly name: string;
+	readonly limit: number;
+	readonly active: number;
+	tryAcquire: () => ConcurrencySlot | null;
+	/**
+	 * Waits for a free slot.  The callback is called with the slot once it is granted.
+	 * @param priority - Waiters with a higher priority are granted first.
+	 * @returns A function that stops waiting.
+	 */
+	wait: (onGrant: (slot: ConcurrencySlot) => void, priority?: number) => () => void;
+};
+
+/**
+ * The graph input that lists the pools the item's graph holds a slot of.  Context values can't be changed for a subgraph,
+ * so the pools are passed along with the item's graph inputs.  An iterator in the item graph inherits one slot from it, so
+ * items waiting on their nested items can't use up the pool and deadlock.  Graph inputs only reach the item graph itself:
+ * an iterator inside a subgraph of the item graph doesn't see them, and asks for a slot of its own.
+ */
+export const heldConcurrencyPoolsGraphInputId = '__heldConcurrencyPools';
+
+/**
+ * Creates a limiter that allows `limit` slots at the same time.  Waiters are granted slots by priority, then in order.
+ */
+export const createConcurrencyLimiter = (name: string, limit: number): ConcurrencyLimiter => {
+	let active = 0;
+	const waiters: { onGrant: (slot: ConcurrencySlot) => void; priority: number }[] = [];
+
+	const createSlot = (): ConcurrencySlot => {
+		let released = false;
+		return {
+			release: () => {
+				if (released) {
+					return;
+				}
+				released = true;
+				const next = waiters.shift();
+				if (next) {
+					// hand the slot over, active stays the same
+					next.onGrant(createSlot());
+				} else {
+					active--;
+				}
+			},
+		};
+	};
+
+	return {
+		name,
+		limit,
+		get active() {
+			return active;
+		},
+		tryAcquire() {
+			if (active < limit) {
+				active++;
+				return createSlot();
+			}
+			return null;
+		},
+		wait(onGrant, priority = 0) {
+			const waiter = { onGrant, priority };
+			const insertAt = waiters.findIndex((f) => f.priority < priority);
+			waiters.splice(insertAt < 0 ? waiters.length : insertAt, 0, waiter);
+			return () => {
+				const index = waiters.indexOf(waiter);
+				if (index >= 0) {
+					waiters.splice(index, 1);
+				}
+			};
+		},
+	};
+};
+
+/**
+ * Acquires a slot from the first of the limiters that has one free.
+ * @param limiters - The limiters to acquire from, in order of preference.
+ * @param signal - Stops waiting when aborted.
+ * @param priority - Waiters with a higher priority are granted first.
+ * @returns The slot, release it once the work is done.
+ */
+export const acquireConcurrencySlot = (
+	limiters: ConcurrencyLimiter[],
+	signal: AbortSignal,
+	priority = 0
+): Promise<ConcurrencySlot> => {
+	for (const limiter of limiters) {
+		const slot = limiter.tryAcquire();
+		if (slot) {
+			return Promise.resolve(slot);
+		}
+	}
+
+	return new Promise<ConcurrencySlot>((resolve, reject) => {
+		const stopWaiting = () => {
+			for (const cancel of cancels) {
+				cancel();
+			}
+			signal.removeEventListener('abort', onAbort);
+		};
+		const onAbort = () => {
+			stopWaiting();
+			reject(
+				new Error(`Aborted while waiting for a slot of the concurrency pool ${limiters.map((m) => m.name).join(', ')}`)
+			);
+		};
+		const cancels = limiters.map((limiter) =>
+			limiter.wait((slot) => {
+				stopWaiting();
+				resolve(slot);
+			}, priority)
+		);
+
+		if (signal.aborted) {
+			onAbort();
+		} else {
+			signal.addEventListener('abort', onAbort, { once: true });
+		}
+	});
+};
+
+/**
+ * Gets the named pool of the current run, creating it if needed.  Pools are kept in the execution cache, which is shared
+ * by every graph and subgraph of the run, so every node using the same pool name shares one limiter.
+ * @param executionCache - The execution cache of the process context.
+ * @param name - The pool name.
+ * @param limit - The pool limit, used when the pool is created.
+ * @returns The pool.
+ */
+export const getConcurrencyPool = (
+	executionCache: Map<string, unknown>,
+	name: string,
+	limit: number
+): ConcurrencyLimiter => {
+	const key = `utilities-plugin:concurrency-pool:${name}`;
+	let pool = executionCache.get(key) as ConcurrencyLimiter | undefined;
+	if (pool == null) {
+		pool = createConcurrencyLimiter(name, Math.max(1, Math.floor(limit)));
+		executionCache.set(key, pool);
+	}
+	return pool;
+};
+
+/**
+ * Gets the pools the current graph holds a slot of, from the graph inputs of the process context.
+ */
+export const getHeldConcurrencyPools = (graphInputs: Record<string, DataValue> | undefined): string[] => {
+	const held = graphInputs?.[heldConcurrencyPoolsGraphInputId];
+	return held?.type === 'string' ? held.value.split(',').filter((f) => f !== '') : [];
+};
+
+/**
+ * Parses the pool limits plugin config, for example `openai: 8, anthropic: 4`.  Entries may be separated by commas or new lines.
+ * @param config - The plugin config value.
+ * @returns The limit of each pool name.
+ */
+export const parseConcurrencyPoolLimits = (config: string | undefined): Record<string, number> => {
+	const limits: Record<string, number> = {};
+	for (const entry of (config ?? '').split(/[,\n]/)) {
+		const [name, limit] = entry.split(':').map((m) => m.trim());
+		const parsedLimit = Number(limit);
+		if (name && Number.isFinite(parsedLimit) && parsedLimit > 0) {
+			limits[name] = parsedLimit;
+		}
+	}
+	return limits;
+};
@@ -0,0 +1,84 @@
+import { parse, stringify } from 'superjson';
+
+export type DeadLetterItem = {
+	/**
+	 * The iterator input item, as it was passed to the iterator
+	 */
+	input: unknown;
+	error: string;
+	timedOut: boolean;
+	attempts: number;
+	graphId: string;
+	graphName: string;
+	/**
+	 * Epoch milliseconds of the failed run
+	 */
+	failedAt: number;
+};
+
+export type DeadLetterStorage = {
+	/**
+	 * The failed items, keyed by the digest of the input item
+	 */
+	items: Map<string, DeadLetterItem>;
+	expiryTimestamp: number;
+};
+
+/**
+ * The id is the name of the dead-letter store
+ */
+const deadLetterMap: Map<string, DeadLetterStorage> = new Map();
+
+const DEAD_LETTER_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; /** 7 days */
+
+/**
+ * Retrieves or creates the dead-letter store for the name.  Stores are persisted to localStorage, so they survive a restart.
+ * @param name - The name of the dead-letter store.
+ * @returns The dead-letter store.
+ */
+export const getDeadLetterStorage = (name: string): DeadLetterStorage => {
+	let storage = deadLetterMap.get(name);
+	if (storage == null) {
+		const ls = globalThis.localStorage?.getItem?.(`deadLetter-${name}`);
+		storage = ls == null ? undefined : (parse(ls) as DeadLetterStorage);
+	}
+	if (storage == null || storage.expiryTimestamp < Date.now()) {
+		storage = {
+			items: new Map<string, DeadLetterItem>(),
+			expiryTimestamp: Date.now() + DEAD_LETTER_EXPIRY_MS,
+		};
+	}
+
+	deadLetterMap.set(name, storage);
+	return storage;
+};
+
+/**
+ * Records the results of a run: the failed items are stored, and the items that succeeded are removed, so rerunning the
+ * stored failures only leaves the ones that fail again.
+ * @param name - The name of the dead-letter store.
+ * @param results.failed - The failed items, keyed by the digest of the input item.
+ * @param results.succeededKeys - The digests of the input items that succeeded.
+ */
+export const updateDeadLetterStorage = (
+	name: string,
+	results: { failed: Map<string, DeadLetterItem>; succeededKeys: string[] }
+): void => {
+	const storage = getDeadLetterStorage(name);
+	for (const key of results.succeededKeys) {
+		storage.items.delete(key);
+	}
+	for (const [key, item] of results.failed) {
+		storage.items.set(key, item);
+	}
+	storage.expiryTimestamp = Date.now() + DEAD_LETTER_EXPIRY_MS;
+	globalThis.localStorage?.setItem?.(`deadLetter-${name}`, stringify(storage));
+};
+
+/**
+ * Deletes the dead-letter store.
+ */
+export const clearDeadLetterStorage = (name: string): void => {
+	deadLetterMap.delete(name);
+	globalThis.localStorage?.removeItem?.(`deadLetter-${name}`);
+};
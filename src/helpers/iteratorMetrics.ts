@@ -0,0 +1,168 @@
+export type ItemStatus = 'succeeded' | 'failed' | 'timed-out' | 'aborted';
+
+export type ItemMetrics = {
+	index: number;
+	/**
+	 * Epoch milliseconds when the item's graph first started running, after the rate limit and pool slot were acquired
+	 */
+	startTime: number | null;
+	/**
+	 * Time the item's graph ran, summed over its attempts
+	 */
+	durationMs: number | null;
+	/**
+	 * Time the item waited for the rate limit, a pool slot and retry backoff
+	 */
+	queuedMs: number | null;
+	cacheHit: boolean;
+	/**
+	 * The item reused the outputs of an identical item
+	 */
+	deduplicated: boolean;
+	/**
+	 * The item's outputs were restored from a checkpoint of an earlier run
+	 */
+	resumed: boolean;
+	attempts: number;
+	status: ItemStatus;
+};
+
+export type IteratorMetrics = {
+	items: ItemMetrics[];
+	totalWallTimeMs: number;
+	/**
+	 * Latency percentiles of the items that ran the graph, cached, deduplicated and resumed items are excluded
+	 */
+	p50LatencyMs: number | null;
+	p95LatencyMs: number | null;
+	/**
+	 * Succeeded items per second of wall time
+	 */
+	throughputPerSecond: number;
+	/**
+	 * Cache statistics of the items that were looked up in the cache, deduplicated and resumed items are excluded
+	 */
+	cacheHits: number;
+	cacheMisses: number;
+	cacheHitRatio: number;
+	succeededCount: number;
+	failedCount: number;
+};
+
+/**
+ * Gets the nearest-rank percentile of the values.
+ * @param values - The values, in any order.
+ * @param percentile - The percentile, between 0 and 100.
+ * @returns The percentile, or null if there are no values.
+ */
+export const getPercentile = (values: number[], percentile: number): number | null => {
+	if (values.length === 0) {
+		return null;
+	}
+	const sorted = [...values].sort((a, b) => a - b);
+	const rank = Math.ceil((percentile / 100) * sorted.length);
+	return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+/**
+ * Aggregates the item metrics of an iterator run.
+ * @param items - The metrics of each item.
+ * @param totalWallTimeMs - The wall time of the whole run.
+ * @returns The item metrics along with the aggregates.
+ */
+export const summarizeIteratorMetrics = (items: ItemMetrics[], totalWallTimeMs: number): IteratorMetrics => {
+	const latencies = items
+		.filter((f) => !f.cacheHit && !f.deduplicated && !f.resumed && f.durationMs != null && f.status !== 'aborted')
+		.map((m) => m.durationMs as number);
+	const executedItems = items.filter((f) => f.status !== 'aborted' && !f.deduplicated && !f.resumed);
+	const cacheHits = executedItems.filter((f) => f.cacheHit).length;
+	const cacheMisses = executedItems.length - cacheHits;
+	const succeededCount = items.filter((f) => f.status === 'succeeded').length;
+
+	return {
+		items,
+		totalWallTimeMs,
+		p50LatencyMs: getPercentile(latencies, 50),
+		p95LatencyMs: getPercentile(latencies, 95),
+		throughputPerSecond: totalWallTimeMs > 0 ? (succeededCount / totalWallTimeMs) * 1000 : 0,
+		cacheHits,
+		cacheMisses,
+		cacheHitRatio: executedItems.length > 0 ? cacheHits / executedItems.length : 0,
+		succeededCount,
+		failedCount: items.length - succeededCount,
+	};
+};
+
+export type IteratorRunProjection = {
+	/**
+	 * The indices of the sampled items in the input array
+	 */
+	sampledIndices: number[];
+	sampledCount: number;
+	totalCount: number;
+	sampleWallTimeMs: number;
+	/**
+	 * Mean latency of a graph call in the sample, cached, deduplicated and resumed items are excluded
+	 */
+	meanLatencyMs: number | null;
+	/**
+	 * The number of graph calls a full run would make
+	 */
+	projectedGraphCalls: number;
+	/**
+	 * Projected wall time of a full run, from the mean latency, the concurrency and the rate limit
+	 */
+	projectedTotalTimeMs: number | null;
+};
+
+/**
+ * Projects the time of a full run from the latency measured on a sample.
+ * @param items - The metrics of the sampled items.
+ * @param options.sampledIndices - The indices of the sampled items in the input array.
+ * @param options.totalCount - The number of items of a full run.
+ * @param options.sampleWallTimeMs - The wall time of the sample run.
+ * @param options.itemsPerCall - The number of items sent to one graph call, the batch size.
+ * @param options.concurrency - The number of graph calls at the same time.
+ * @param options.maxStartsPerInterval - The rate limit, 0 if there is none.
+ * @param options.rateLimitIntervalMs - The rate limit interval.
+ * @returns The projection.
+ */
+export const projectIteratorRun = (
+	items: ItemMetrics[],
+	options: {
+		sampledIndices: number[];
+		totalCount: number;
+		sampleWallTimeMs: number;
+		itemsPerCall: number;
+		concurrency: number;
+		maxStartsPerInterval: number;
+		rateLimitIntervalMs: number;
+	}
+): IteratorRunProjection => {
+	const latencies = items
+		.filter((f) => !f.cacheHit && !f.deduplicated && !f.resumed && f.durationMs != null && f.status === 'succeeded')
+		.map((m) => m.durationMs as number);
+	const meanLatencyMs =
+		latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : null;
+	const projectedGraphCalls = Math.ceil(options.totalCount / Math.max(options.itemsPerCall, 1));
+
+	let projectedTotalTimeMs: number | null = null;
+	if (meanLatencyMs != null) {
+		const latencyBoundMs = Math.ceil(projectedGraphCalls / Math.max(options.concurrency, 1)) * meanLatencyMs;
+		const rateLimitBoundMs =
+			options.maxStartsPerInterval > 0
+				? Math.floor((projectedGraphCalls - 1) / options.maxStartsPerInterval) * options.rateLimitIntervalMs
+				: 0;
+		projectedTotalTimeMs = Math.max(latencyBoundMs, rateLimitBoundMs);
+	}
+
+	return {
+		sampledIndices: options.sampledIndices,
+		sampledCount: options.sampledIndices.length,
+		totalCount: options.totalCount,
+		sampleWallTimeMs: options.sampleWallTimeMs,
+		meanLatencyMs,
+		projectedGraphCalls,
+		projectedTotalTimeMs,
+	};
+};
@@ -0,0 +1,64 @@
+import { parse, stringify } from 'superjson';
+
+export type PipelineRunSnapshot = {
+	/**
+	 * The input of each loop stage before key mapping, keyed by the stage identifier e.g. `loop-0 stage-4`
+	 */
+	stageInputs: Record<string, Record<string, unknown>>;
+	/**
+	 * The stage logs of the last run, as in `intermediateStageOutputs`
+	 */
+	stageLogs: Record<string, unknown>[];
+	/**
+	 * Epoch milliseconds of the last update
+	 */
+	updatedAt: number;
+	expiryTimestamp: number;
+};
+
+/**
+ * The id is the run key
+ */
+const pipelineRunMap: Map<string, PipelineRunSnapshot> = new Map();
+
+const PIPELINE_RUN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; /** 7 days */
+
+/**
+ * Retrieves the recorded snapshot of a pipeline run.  Snapshots are persisted to localStorage, so they survive a restart.
+ * @param runKey - The run key.
+ * @returns The snapshot, or undefined if the run wasn't recorded or has expired.
+ */
+export const getPipelineRunSnapshot = (runKey: string): PipelineRunSnapshot | undefined => {
+	let snapshot = pipelineRunMap.get(runKey);
+	if (snapshot == null) {
+		const ls = globalThis.localStorage?.getItem?.(`pipelineRun-${runKey}`);
+		snapshot = ls == null ? undefined : (parse(ls) as PipelineRunSnapshot);
+	}
+	if (snapshot == null || snapshot.expiryTimestamp < Date.now()) {
+		return undefined;
+	}
+
+	pipelineRunMap.set(runKey, snapshot);
+	return snapshot;
+};
+
+/**
+ * Records the snapshot of a pipeline run.  The stage inputs are merged into the recorded ones, so a resumed run keeps
+ * the inputs of the stages it skipped.
+ * @param runKey - The run key.
+ * @param run.stageInputs - The input of each loop stage that ran, keyed by the stage identifier.
+ * @param run.stageLogs - The stage logs of the run.
+ */
+export const updatePipelineRunSnapshot = (
+	runKey: string,
+	run: { stageInputs: Record<string, Record<string, unknown>>; stageLogs: Record<string, unknown>[] }
+): void => {
+	const snapshot: PipelineRunSnapshot = {
+		stageInputs: { ...getPipelineRunSnapshot(runKey)?.stageInputs, ...run.stageInputs },
+		stageLogs: run.stageLogs,
+		updatedAt: Date.now(),
+		expiryTimestamp: Date.now() + PIPELINE_RUN_EXPIRY_MS,
+	};
+	pipelineRunMap.set(runKey, snapshot);
+	globalThis.localStorage?.setItem?.(`pipelineRun-${runKey}`, stringify(snapshot));
+};
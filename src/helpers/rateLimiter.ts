@@ -0,0 +1,71 @@
+export type RateLimiter = {
+	readonly maxStarts: number;
+	readonly intervalMs: number;
+	/**
+	 * Waits until a start is allowed, and records it.
+	 * @param signal - Stops waiting when aborted.
+	 * @param priority - Waiters with a higher priority start first.
+	 */
+	acquire: (signal: AbortSignal, priority?: number) => Promise<void>;
+};
+
+/**
+ * Creates a limiter that allows `maxStarts` starts in any window of `intervalMs`.  Waiters start by priority, then in order.
+ */
+export const createRateLimiter = (maxStarts: number, intervalMs: number): RateLimiter => {
+	/**
+	 * Epoch milliseconds of the starts within the last interval, oldest first
+	 */
+	const starts: number[] = [];
+	const waiters: { onStart: () => void; priority: number }[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const startWaiters = () => {
+		timer = undefined;
+		const now = Date.now();
+		while (starts.length > 0 && starts[0] <= now - intervalMs) {
+			starts.shift();
+		}
+		while (waiters.length > 0 && starts.length < maxStarts) {
+			starts.push(now);
+			waiters.shift()?.onStart();
+		}
+		if (waiters.length > 0) {
+			timer = setTimeout(startWaiters, starts[0] + intervalMs - now);
+		}
+	};
+
+	return {
+		maxStarts,
+		intervalMs,
+		acquire(signal, priority = 0) {
+			return new Promise<void>((resolve, reject) => {
+				const onAbort = () => {
+					const index = waiters.indexOf(waiter);
+					if (index >= 0) {
+						waiters.splice(index, 1);
+					}
+					reject(new Error('Aborted while waiting for the rate limit'));
+				};
+				const waiter = {
+					onStart: () => {
+						signal.removeEventListener('abort', onAbort);
+						resolve();
+					},
+					priority,
+				};
+
+				if (signal.aborted) {
+					onAbort();
+					return;
+				}
+				signal.addEventListener('abort', onAbort, { once: true });
+				const insertAt = waiters.findIndex((f) => f.priority < priority);
+				waiters.splice(insertAt < 0 ? waiters.length : insertAt, 0, waiter);
+				if (timer == null) {
+					startWaiters();
+				}
+			});
+		},
+	};
+};
@@ -0,0 +1,84 @@
+import { runWithChildSignal } from './abortable.js';
+import { sleep } from './sleep.js';
+
+export type RetryPolicy = {
+	/**
+	 * Total number of attempts, including the first one
+	 */
+	maxAttempts: number;
+	baseDelayMs: number;
+	backoffMultiplier: number;
+	/**
+	 * Fraction (0 - 1) of the computed delay that is randomised in both directions
+	 */
+	jitter: number;
+	/**
+	 * Error message substrings that are considered retryable.  If empty, every error is retryable
+	 */
+	retryableErrors: string[];
+};
+
+export type RetryResult<T> = { ok: true; value: T; attempts: number } | { ok: false; error: Error; attempts: number };
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff with jitter.
+ * @param policy - The retry policy.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+	const delay = policy.baseDelayMs * policy.backoffMultiplier ** (attempt - 1);
+	const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+	return Math.max(0, Math.round(delay + jitter));
+};
+
+/**
+ * Checks if an error message matches one of the retryable error patterns of the policy (case insensitive).
+ */
+export const isRetryableError = (policy: RetryPolicy, message: string): boolean => {
+	const patterns = policy.retryableErrors.map((m) => m.trim().toLowerCase()).filter((f) => f !== '');
+	if (patterns.length === 0) {
+		return true;
+	}
+	const lowerCaseMessage = message.toLowerCase();
+	return patterns.some((s) => lowerCaseMessage.includes(s));
+};
+
+/**
+ * Runs the function until it succeeds, the attempts are exhausted or the error is not retryable.
+ * @param policy - The retry policy.
+ * @param fn - The function to run.  It receives the current attempt number, starting at 1.
+ * @param shouldStop - Checked before every retry.  If it returns true, the last error is returned without retrying.
+ * @param signal - Cuts the backoff delay short when aborted, the last error is then returned without retrying.
+ * @returns The value or the last error, along with the number of attempts made.
+ */
+export const runWithRetry = async <T>(
+	policy: RetryPolicy,
+	fn: (attempt: number) => Promise<T>,
+	shouldStop: () => boolean = () => false,
+	signal?: AbortSignal
+): Promise<RetryResult<T>> => {
+	const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+	let attempt = 0;
+	while (true) {
+		attempt++;
+		try {
+			const value = await fn(attempt);
+			return { ok: true, value, attempts: attempt };
+		} catch (err) {
+			const error = err instanceof Error ? err : new Error(String(err));
+			if (attempt >= maxAttempts || !isRetryableError(policy, error.message) || shouldStop()) {
+				return { ok: false, error, attempts: attempt };
+			}
+			try {
+				const delay = getRetryDelay(policy, attempt);
+				await (signal != null ? runWithChildSignal(signal, 0, () => sleep(delay)) : sleep(delay));
+			} catch {
+				return { ok: false, error, attempts: attempt };
+			}
+			if (shouldStop()) {
+				return { ok: false, error, attempts: attempt };
+			}
+		}
+	}
+};
@@ -0,0 +1,64 @@
+export type SampleMode = 'off' | 'first' | 'random' | 'indices';
+
+/**
+ * Creates a random number generator (mulberry32) that returns the same sequence for the same seed.
+ * @param seed - The seed.
+ * @returns A function that returns a number between 0 (inclusive) and 1 (exclusive).
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+	let state = Math.floor(seed) >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+/**
+ * Gets the indices of the items to run in a sample.
+ * @param mode - first: the first `size` items.  random: `size` items picked with the seed, in input order.  indices: the listed indices.
+ * @param count - The number of items.
+ * @param options.size - The sample size, for first and random.
+ * @param options.seed - The seed, for random.
+ * @param options.indices - Comma separated indices, e.g. `0, 5, 12`, for indices.
+ * @returns The indices, or an error if an index is invalid.
+ */
+export const getSampleIndices = (
+	mode: Exclude<SampleMode, 'off'>,
+	count: number,
+	options: { size: number; seed: number; indices: string }
+): { indices: number[] } | { error: string } => {
+	const size = Math.min(Math.max(Math.floor(options.size), 0), count);
+
+	if (mode === 'first') {
+		return { indices: Array.from({ length: size }, (_, i) => i) };
+	}
+
+	if (mode === 'random') {
+		// partial Fisher-Yates shuffle
+		const random = createSeededRandom(options.seed);
+		const shuffled = Array.from({ length: count }, (_, i) => i);
+		for (let i = 0; i < size; i++) {
+			const j = i + Math.floor(random() * (count - i));
+			[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+		}
+		return { indices: shuffled.slice(0, size).sort((a, b) => a - b) };
+	}
+
+	const indices: number[] = [];
+	for (const entry of options.indices.split(',').map((m) => m.trim())) {
+		if (entry === '') {
+			continue;
+		}
+		const index = Number(entry);
+		if (!Number.isInteger(index) || index < 0 || index >= count) {
+			return { error: `Sample index \`${entry}\` is not a valid index for ${count} items` };
+		}
+		if (!indices.includes(index)) {
+			indices.push(index);
+		}
+	}
+	return { indices };
+};
@@ -7,6 +7,10 @@ import { registerPineconeSearchNode } from './nodes/PineconeSearchNode.js';
 import { registerPineconeUpsertNode } from './nodes/PineconeUpsertNode.js';
 import { registerIteratorNode } from './nodes/IteratorNode.js';
 import { registerPipelineNode } from './nodes/PipelineNode.js';
+import { registerIteratorReduceNode } from './nodes/IteratorReduceNode.js';
+import { registerIteratorFilterNode } from './nodes/IteratorFilterNode.js';
+import { registerDeadLetterNode } from './nodes/DeadLetterNode.js';
+import { registerDagPipelineNode } from './nodes/DagPipelineNode.js';
 
 // A Rivet plugin must default export a plugin initializer function. This takes in the Rivet library as its
 // only parameter. This function must return a valid RivetPlugin object.
@@ -16,6 +20,10 @@ const plugin: RivetPluginInitializer = (rivet) => {
 	const pineconeSearchNode = registerPineconeSearchNode(rivet);
 	const pineconeUpsertNode = registerPineconeUpsertNode(rivet);
 	const pipelineNode = registerPipelineNode(rivet);
+	const iteratorReduceNode = registerIteratorReduceNode(rivet);
+	const iteratorFilterNode = registerIteratorFilterNode(rivet);
+	const deadLetterNode = registerDeadLetterNode(rivet);
+	const dagPipelineNode = registerDagPipelineNode(rivet);
 
 	// The plugin object is the definition for your plugin.
 	const utilitiesPlugin: RivetPlugin = {
@@ -34,6 +42,13 @@ const plugin: RivetPluginInitializer = (rivet) => {
 				pullEnvironmentVariable: 'PINECONE_API_KEY',
 				helperText: 'You may also set the PINECONE_API_KEY environment variable.',
 			},
+			concurrencyPools: {
+				type: 'string',
+				label: 'Concurrency Pools',
+				description:
+					'The limits of the named concurrency pools shared by Iterator Nodes, e.g. `openai: 8, anthropic: 4`.',
+				helperText: 'Comma separated `pool name: limit` pairs.',
+			},
 		},
 
 		// Register any additional nodes your plugin adds here. This is passed a `register`
@@ -43,6 +58,10 @@ const plugin: RivetPluginInitializer = (rivet) => {
 			register(pineconeSearchNode);
 			register(pineconeUpsertNode);
 			register(pipelineNode);
+			register(iteratorReduceNode);
+			register(iteratorFilterNode);
+			register(deadLetterNode);
+			register(dagPipelineNode);
 		},
 	};
 
@@ -2,6 +2,7 @@ import { pineconePlugin, type PluginConfigurationSpec } from '@ironclad/rivet-co
 
 export const configKeys = {
 	pineconeApiKey: 'pineconeApiKey',
+	concurrencyPools: 'concurrencyPools',
 } as const;
 
 export const pluginConfig = {
@@ -12,4 +13,10 @@ export const pluginConfig = {
 		pullEnvironmentVariable: 'PINECONE_API_KEY',
 		helperText: 'You may also set the PINECONE_API_KEY environment variable.',
 	},
+	concurrencyPools: {
+		type: 'string',
+		label: 'Concurrency Pools',
+		description: 'The limits of the named concurrency pools shared by Iterator Nodes, e.g. `openai: 8, anthropic: 4`.',
+		helperText: 'Comma separated `pool name: limit` pairs.',
+	},
 } as const satisfies Record<keyof typeof configKeys, PluginConfigurationSpec>;
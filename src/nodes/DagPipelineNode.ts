@@ -0,0 +1,350 @@
+import { isObjectDataValue } from '../helpers/dataValueHelpers.js';
+import { cleanExpiredCache } from '../helpers/cacheStorage';
+import { acquireConcurrencySlot, createConcurrencyLimiter } from '../helpers/concurrencyPool.js';
+import { processPipelineStage, pipelineStageConnectionIds } from './functions/pipelineStage.js';
+import type {
+	PortId,
+	ChartNode,
+	Rivet,
+	PluginNodeImpl,
+	NodeId,
+	NodeConnection,
+	Project,
+	NodeInputDefinition,
+	NodeOutputDefinition,
+	NodeUIData,
+	EditorDefinition,
+	NodeBodySpec,
+	Inputs,
+	InternalProcessContext,
+	Outputs,
+	GraphId,
+} from '@ironclad/rivet-core';
+
+const dagPipelineGraphIdPrefix = 'graph-';
+const dagPipelineConnectionIds = {
+	...pipelineStageConnectionIds,
+	pipelineInput: 'pipelineInput' as PortId,
+	graphPrefix: dagPipelineGraphIdPrefix as PortId,
+	getGraphId: (id: number | string) => `${dagPipelineGraphIdPrefix}${id.toString()}` as PortId,
+	concurrency: 'concurrency' as PortId,
+} as const;
+
+// This defines your new type of node.
+export type DagPipelineNode = ChartNode<'dagPipelineNode', DagPipelineNodeData>;
+
+// This defines the data that your new node will store.
+export type DagPipelineNodeData = {
+	enableCache: boolean;
+	/**
+	 * The earlier stages each stage depends on, as `<stage>: <stages>`, e.g. `3: 1, 2`.  Stages without an entry only get the pipeline input
+	 */
+	stageDependencies: string[];
+	/**
+	 * The number of stages that run at the same time
+	 */
+	concurrency: number;
+	useConcurrencyToggle: boolean;
+};
+
+// Make sure you export functions that take in the Rivet library, so that you do not
+// import the entire Rivet core library in your plugin.
+export function registerDagPipelineNode(rivet: typeof Rivet) {
+	const DagPipelineNodeImpl: PluginNodeImpl<DagPipelineNode> = {
+		create(): DagPipelineNode {
+			const node: DagPipelineNode = {
+				id: rivet.newId<NodeId>(),
+				data: {
+					enableCache: false,
+					stageDependencies: [],
+					concurrency: 4,
+					useConcurrencyToggle: false,
+				} satisfies DagPipelineNodeData,
+				title: 'DAG Pipeline Node',
+				type: 'dagPipelineNode',
+				visualData: {
+					x: 0,
+					y: 0,
+					width: 200,
+				},
+			};
+			return node;
+		},
+
+		getInputDefinitions(
+			data: DagPipelineNodeData,
+			connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeInputDefinition[] {
+			const inputs: NodeInputDefinition[] = [];
+
+			if (data.useConcurrencyToggle) {
+				inputs.push({
+					id: dagPipelineConnectionIds.concurrency,
+					dataType: 'number',
+					title: 'Concurrency',
+					description: 'The number of stages that run at the same time.',
+					data: data.concurrency,
+				});
+			}
+
+			inputs.push({
+				id: dagPipelineConnectionIds.pipelineInput,
+				dataType: 'object',
+				title: 'Pipeline Input',
+				description:
+					'Pipeline Input must be an ObjectDataValue `{type: "object", value: <inputs>}`.  Every stage gets it as the graph input `pipelineInput`.',
+				required: true,
+			});
+
+			const graphInputCount = connections.filter((f) =>
+				f.inputId.startsWith(dagPipelineConnectionIds.graphPrefix)
+			).length;
+			for (let i = 0; i <= graphInputCount; i++) {
+				inputs.push({
+					id: dagPipelineConnectionIds.getGraphId(i),
+					dataType: 'graph-reference',
+					title: `Stage ${i} Graph`,
+					description: `The reference to the graph to call for stage ${i}`,
+					required: false,
+				});
+			}
+
+			return inputs;
+		},
+
+		getOutputDefinitions(
+			_data: DagPipelineNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeOutputDefinition[] {
+			return [
+				{
+					id: dagPipelineConnectionIds.pipelineOutput,
+					dataType: 'object',
+					title: 'Pipeline Output',
+					description: 'The merged outputs of the final stages, the stages no other stage depends on.',
+				},
+				{
+					id: dagPipelineConnectionIds.intermediateStageOutputs,
+					dataType: 'object[]',
+					title: 'Intermediate Stage Outputs',
+					description: 'The input and output of each stage, in the order the stages finished.',
+				},
+			];
+		},
+
+		getUIData(): NodeUIData {
+			return {
+				contextMenuTitle: 'DAG Pipeline Node',
+				group: 'Logic',
+				infoBoxBody: rivet.dedent`This is a DAG pipeline node.  Each stage graph declares the earlier stages it depends on, and runs once they are done.  Stages that don't depend on each other run at the same time, up to the concurrency limit.
+
+          Each stage gets the merged outputs of its dependencies, plus \`pipelineInput\`.  For example extract, then summarize and classify in parallel, then merge: \`1: 0\`, \`2: 0\`, \`3: 1, 2\`.  The pipeline output is the merged outputs of the final stages.`,
+				infoBoxTitle: 'DAG Pipeline Node',
+			};
+		},
+
+		getEditors(_data: DagPipelineNodeData): EditorDefinition<DagPipelineNode>[] {
+			return [
+				{
+					type: 'stringList',
+					dataKey: 'stageDependencies',
+					label: 'Stage dependencies',
+					placeholder: 'e.g. 3: 1, 2',
+					helperMessage:
+						'The earlier stages each stage depends on, as `<stage>: <stages>`.  The stage gets the merged outputs of its dependencies, later dependencies win.  Stages without an entry only get the pipeline input.',
+				},
+				{
+					type: 'number',
+					dataKey: 'concurrency',
+					label: 'Concurrency',
+					defaultValue: 4,
+					min: 1,
+					helperMessage: 'The number of stages that run at the same time.',
+					useInputToggleDataKey: 'useConcurrencyToggle',
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableCache',
+					label: 'Cache Execution',
+					helperMessage: rivet.dedent`If true, the node will cache the successful results of the previous call graph executions. It will use the cached results for the same item inputs.`,
+				},
+			];
+		},
+
+		getBody(data: DagPipelineNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
+			return rivet.dedent`DAG Pipeline Node
+				Enable Cache: ${data.enableCache}
+				Concurrency: ${data.useConcurrencyToggle ? '(using input)' : data.concurrency}
+				Dependencies: ${data.stageDependencies.length > 0 ? data.stageDependencies.join('; ') : '(none)'}
+      `;
+		},
+
+		async process(data: DagPipelineNodeData, inputData: Inputs, context: InternalProcessContext): Promise<Outputs> {
+			const outputs: Outputs = {};
+			const pipelineInput = inputData[dagPipelineConnectionIds.pipelineInput];
+
+			const stageCount = Object.keys(inputData).filter((key) =>
+				key.startsWith(dagPipelineConnectionIds.graphPrefix)
+			).length;
+			const stageDependencies = parseStageDependencies(data.stageDependencies, stageCount);
+
+			if (!isObjectDataValue(rivet, pipelineInput) || 'error' in stageDependencies) {
+				outputs[dagPipelineConnectionIds.pipelineOutput] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[dagPipelineConnectionIds.error] = {
+					type: 'string',
+					value:
+						'error' in stageDependencies
+							? stageDependencies.error
+							: 'Pipeline Input must be an Object.  The object should be a ObjectDataValue `{type: "object", value: <inputs>}`',
+				};
+				return outputs;
+			}
+			const { dependencies } = stageDependencies;
+
+			const concurrency = Math.max(
+				rivet.coerceTypeOptional(inputData[dagPipelineConnectionIds.concurrency], 'number') ?? data.concurrency,
+				1
+			);
+			const limiter = createConcurrencyLimiter('dag-pipeline', concurrency);
+
+			const intermediateStageLogsOut: Record<string, unknown>[] = [];
+			/**
+			 * The outputs of the first stage that failed.  Stages that depend on a failed stage don't run.
+			 */
+			let failedOutputs: Outputs | undefined;
+
+			/**
+			 * Each stage waits for its dependencies, so the stages can be started in order.  A stage resolves to its output,
+			 * or undefined if it or one of its dependencies failed.
+			 */
+			const stageOutputs: Promise<Record<string, unknown> | undefined>[] = [];
+			for (let stageIndex = 0; stageIndex < stageCount; stageIndex++) {
+				stageOutputs[stageIndex] = (async () => {
+					const dependencyOutputs = await Promise.all(dependencies[stageIndex].map((m) => stageOutputs[m]));
+					if (failedOutputs != null || dependencyOutputs.some((s) => s == null)) {
+						return undefined;
+					}
+
+					const stageGraphRef = rivet.coerceType(
+						inputData[dagPipelineConnectionIds.getGraphId(stageIndex)],
+						'graph-reference'
+					);
+					let slot: Awaited<ReturnType<typeof acquireConcurrencySlot>> | undefined;
+					try {
+						slot = await acquireConcurrencySlot([limiter], context.signal);
+						const stageResult = await processPipelineStage(
+							rivet,
+							{
+								context,
+								nodeInputData: inputData,
+								enableCache: data.enableCache,
+							},
+							{
+								stageInput: { ...Object.assign({}, ...dependencyOutputs), pipelineInput },
+								stageGraph: context.project.graphs[stageGraphRef.graphId as GraphId],
+								stageGraphRef,
+								stageIdentifier: `stage-${stageIndex}`,
+							},
+							intermediateStageLogsOut
+						);
+
+						if (
+							stageResult[dagPipelineConnectionIds.error] ||
+							stageResult[dagPipelineConnectionIds.pipelineOutput]?.type === 'control-flow-excluded'
+						) {
+							failedOutputs ??= stageResult;
+							return undefined;
+						}
+						return stageResult[dagPipelineConnectionIds.pipelineOutput]?.value as Record<string, unknown>;
+					} catch (err) {
+						failedOutputs ??= {
+							[dagPipelineConnectionIds.pipelineOutput]: {
+								type: 'control-flow-excluded',
+								value: undefined,
+							},
+							[dagPipelineConnectionIds.error]: {
+								type: 'string',
+								value: `Error running stage-${stageIndex}: ${rivet.getError(err).message}`,
+							},
+						};
+						return undefined;
+					} finally {
+						slot?.release();
+					}
+				})();
+			}
+			const results = await Promise.all(stageOutputs);
+
+			if (failedOutputs != null) {
+				return failedOutputs;
+			}
+
+			if (data.enableCache) {
+				void cleanExpiredCache();
+			}
+
+			/**
+			 * The final stages are the stages no other stage depends on
+			 */
+			const finalStageOutputs = results.filter((_, i) => !dependencies.some((s) => s.includes(i)));
+			outputs[dagPipelineConnectionIds.pipelineOutput] = {
+				type: 'object',
+				value: Object.assign({}, ...finalStageOutputs),
+			};
+			outputs[dagPipelineConnectionIds.intermediateStageOutputs] = {
+				type: 'object[]',
+				value: intermediateStageLogsOut,
+			};
+			return outputs;
+		},
+	};
+
+	/**
+	 * Parses the stage dependencies, e.g. `3: 1, 2`, into the dependencies of each stage.  A stage can only depend on
+	 * earlier stages, so the stages can't form a cycle.
+	 */
+	const parseStageDependencies = (
+		entries: string[],
+		stageCount: number
+	): { dependencies: number[][] } | { error: string } => {
+		const dependencies: number[][] = Array.from({ length: stageCount }, () => []);
+
+		for (const entry of entries.map((m) => m.trim()).filter((f) => f !== '')) {
+			const [stageText, dependencyText = ''] = entry.split(':');
+			const stage = Number(stageText.trim());
+			if (!Number.isInteger(stage) || stage < 0 || stage >= stageCount) {
+				return { error: `Invalid stage dependency \`${entry}\`.  \`${stageText.trim()}\` is not a connected stage` };
+			}
+			for (const dependency of dependencyText.split(',').map((m) => m.trim())) {
+				if (dependency === '') {
+					continue;
+				}
+				const dependencyStage = Number(dependency);
+				if (!Number.isInteger(dependencyStage) || dependencyStage < 0 || dependencyStage >= stage) {
+					return {
+						error: `Invalid stage dependency \`${entry}\`.  A stage can only depend on earlier stages, \`${dependency}\` isn't one`,
+					};
+				}
+				if (!dependencies[stage].includes(dependencyStage)) {
+					dependencies[stage].push(dependencyStage);
+				}
+			}
+		}
+
+		return { dependencies };
+	};
+
+	// Once a node is defined, you must pass it to rivet.pluginNodeDefinition, which will return a valid
+	// PluginNodeDefinition object.
+	const dagPipelineNode = rivet.pluginNodeDefinition(DagPipelineNodeImpl, 'DAG Pipeline Node');
+
+	// This definition should then be used in the `register` function of your plugin definition.
+	return dagPipelineNode;
+}
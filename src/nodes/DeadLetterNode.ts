@@ -0,0 +1,205 @@
+import { clearDeadLetterStorage, getDeadLetterStorage } from '../helpers/deadLetterStorage.js';
+import type {
+	PortId,
+	ChartNode,
+	Rivet,
+	PluginNodeImpl,
+	NodeId,
+	NodeConnection,
+	Project,
+	NodeInputDefinition,
+	NodeOutputDefinition,
+	NodeUIData,
+	EditorDefinition,
+	NodeBodySpec,
+	Inputs,
+	InternalProcessContext,
+	Outputs,
+} from '@ironclad/rivet-core';
+
+const deadLetterConnectionIds = {
+	storeName: 'storeName' as PortId,
+	items: 'items' as PortId,
+	failures: 'failures' as PortId,
+	count: 'count' as PortId,
+	error: 'error' as PortId,
+} as const;
+
+// This defines your new type of node.
+export type DeadLetterNode = ChartNode<'deadLetterNode', DeadLetterNodeData>;
+
+// This defines the data that your new node will store.
+export type DeadLetterNodeData = {
+	storeName: string;
+	useStoreNameToggle: boolean;
+	/**
+	 * list: output the stored failures.  clear: output the stored failures one last time and delete them
+	 */
+	action: 'list' | 'clear';
+};
+
+// Make sure you export functions that take in the Rivet library, so that you do not
+// import the entire Rivet core library in your plugin.
+export function registerDeadLetterNode(rivet: typeof Rivet) {
+	const DeadLetterNodeImpl: PluginNodeImpl<DeadLetterNode> = {
+		create(): DeadLetterNode {
+			const node: DeadLetterNode = {
+				id: rivet.newId<NodeId>(),
+				data: {
+					storeName: '',
+					useStoreNameToggle: false,
+					action: 'list',
+				} satisfies DeadLetterNodeData,
+				title: 'Dead Letter Node',
+				type: 'deadLetterNode',
+				visualData: {
+					x: 0,
+					y: 0,
+					width: 200,
+				},
+			};
+			return node;
+		},
+
+		getInputDefinitions(
+			data: DeadLetterNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeInputDefinition[] {
+			const inputs: NodeInputDefinition[] = [];
+
+			if (data.useStoreNameToggle) {
+				inputs.push({
+					id: deadLetterConnectionIds.storeName,
+					dataType: 'string',
+					title: 'Store Name',
+					description: 'The name of the dead-letter store, as set on the Iterator Node.',
+					data: data.storeName,
+				});
+			}
+
+			return inputs;
+		},
+
+		getOutputDefinitions(
+			_data: DeadLetterNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeOutputDefinition[] {
+			return [
+				{
+					id: deadLetterConnectionIds.items,
+					dataType: 'object[]',
+					title: 'Items',
+					description:
+						'The input items of the stored failures.  Connect this to the Iterator Inputs Array of an iterator to rerun only the failed items.',
+				},
+				{
+					id: deadLetterConnectionIds.failures,
+					dataType: 'object[]',
+					title: 'Failures',
+					description:
+						'The stored failures `{input, error, timedOut, attempts, graphId, graphName, failedAt}`, oldest failure first.',
+				},
+				{
+					id: deadLetterConnectionIds.count,
+					dataType: 'number',
+					title: 'Count',
+					description: 'The number of stored failures.',
+				},
+			];
+		},
+
+		getUIData(): NodeUIData {
+			return {
+				contextMenuTitle: 'Dead Letter Node',
+				group: 'Logic',
+				infoBoxBody: rivet.dedent`This is a dead letter node.  It reads the failed items that an Iterator Node kept in a dead-letter store.
+
+          List outputs the stored failures.  Clear outputs them one last time and deletes them from the store.  Feed the Items output back into an iterator with the same dead-letter store to rerun only the failed items: items that succeed are removed from the store and items that fail again stay.`,
+				infoBoxTitle: 'Dead Letter Node',
+			};
+		},
+
+		getEditors(_data: DeadLetterNodeData): EditorDefinition<DeadLetterNode>[] {
+			return [
+				{
+					type: 'string',
+					dataKey: 'storeName',
+					label: 'Store name',
+					helperMessage: 'The name of the dead-letter store, as set on the Iterator Node.',
+					useInputToggleDataKey: 'useStoreNameToggle',
+				},
+				{
+					type: 'dropdown',
+					dataKey: 'action',
+					label: 'Action',
+					options: [
+						{ value: 'list', label: 'List' },
+						{ value: 'clear', label: 'Clear' },
+					],
+					defaultValue: 'list',
+					helperMessage: 'Clear outputs the stored failures one last time and deletes them from the store.',
+				},
+			];
+		},
+
+		getBody(data: DeadLetterNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
+			return rivet.dedent`Dead Letter Node
+				Store: ${data.useStoreNameToggle ? '(using input)' : data.storeName || '(not set)'}
+				Action: ${data.action}
+      `;
+		},
+
+		async process(data: DeadLetterNodeData, inputData: Inputs, _context: InternalProcessContext): Promise<Outputs> {
+			const outputs: Outputs = {};
+
+			const storeName = (
+				rivet.coerceTypeOptional(inputData[deadLetterConnectionIds.storeName], 'string') || data.storeName
+			).trim();
+			if (storeName === '') {
+				outputs[deadLetterConnectionIds.items] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[deadLetterConnectionIds.failures] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[deadLetterConnectionIds.error] = {
+					type: 'string',
+					value: 'The dead-letter store name is not set',
+				};
+				return outputs;
+			}
+
+			const failures = [...getDeadLetterStorage(storeName).items.values()].sort((a, b) => a.failedAt - b.failedAt);
+			if (data.action === 'clear') {
+				clearDeadLetterStorage(storeName);
+			}
+
+			outputs[deadLetterConnectionIds.items] = {
+				type: 'object[]',
+				value: failures.map((m) => m.input as Record<string, unknown>),
+			};
+			outputs[deadLetterConnectionIds.failures] = {
+				type: 'object[]',
+				value: failures,
+			};
+			outputs[deadLetterConnectionIds.count] = {
+				type: 'number',
+				value: failures.length,
+			};
+			return outputs;
+		},
+	};
+
+	// Once a node is defined, you must pass it to rivet.pluginNodeDefinition, which will return a valid
+	// PluginNodeDefinition object.
+	const deadLetterNode = rivet.pluginNodeDefinition(DeadLetterNodeImpl, 'Dead Letter Node');
+
+	// This definition should then be used in the `register` function of your plugin definition.
+	return deadLetterNode;
+}
@@ -0,0 +1,360 @@
+import PQueue from 'p-queue';
+
+import { isObjectDataValue } from '../helpers/dataValueHelpers.js';
+import { validateGraphInput } from './functions/validateGraphInputItem.js';
+import {
+	getCacheStorageForNamespace,
+	cleanExpiredCache,
+	getCachedItem,
+	setCachedItem,
+	createGraphDigest,
+	createObjectDigest,
+} from '../helpers/cacheStorage';
+import type {
+	PortId,
+	ChartNode,
+	Rivet,
+	PluginNodeImpl,
+	NodeId,
+	NodeConnection,
+	Project,
+	NodeInputDefinition,
+	NodeOutputDefinition,
+	NodeUIData,
+	EditorDefinition,
+	NodeBodySpec,
+	Inputs,
+	InternalProcessContext,
+	Outputs,
+	ObjectDataValue,
+	DataValue,
+} from '@ironclad/rivet-core';
+import { sleep } from '../helpers/sleep.js';
+
+const callGraphConnectionIds = {
+	graph: 'graph' as PortId,
+	inputs: 'inputs' as PortId,
+	outputs: 'outputs' as PortId,
+} as const;
+
+/**
+ * The predicate graph's output id
+ */
+const predicateGraphOutputId = 'keep';
+
+const iteratorFilterConnectionIds = {
+	iteratorInputs: 'iteratorInputs' as PortId,
+	graph: 'graph' as PortId,
+	chunkSize: 'chunkSize' as PortId,
+	keptItems: 'keptItems' as PortId,
+	rejectedItems: 'rejectedItems' as PortId,
+	error: 'error' as PortId,
+} as const;
+
+// This defines your new type of node.
+export type IteratorFilterNode = ChartNode<'iteratorFilterNode', IteratorFilterNodeData>;
+
+// This defines the data that your new node will store.
+export type IteratorFilterNodeData = {
+	chunkSize: number;
+	enableCache: boolean;
+	useChunkSizeToggle: boolean;
+};
+
+// Make sure you export functions that take in the Rivet library, so that you do not
+// import the entire Rivet core library in your plugin.
+export function registerIteratorFilterNode(rivet: typeof Rivet) {
+	const predicateGraphHelperMessage = rivet.dedent`Inputs must be an array of objects to filter, in the same format as the Iterator Node inputs.  Each object's keys should match the predicate graph's input ports.
+
+  The predicate graph must have a boolean graph output \`keep\`.  Items where \`keep\` is true are output in Kept Items, the others in Rejected Items.  Both outputs keep the input order and contain the original input items.`;
+
+	const IteratorFilterNodeImpl: PluginNodeImpl<IteratorFilterNode> = {
+		create(): IteratorFilterNode {
+			const node: IteratorFilterNode = {
+				id: rivet.newId<NodeId>(),
+				data: {
+					chunkSize: 5,
+					useChunkSizeToggle: false,
+					enableCache: false,
+				} satisfies IteratorFilterNodeData,
+				title: 'Iterator Filter Node',
+				type: 'iteratorFilterNode',
+				visualData: {
+					x: 0,
+					y: 0,
+					width: 200,
+				},
+			};
+			return node;
+		},
+
+		getInputDefinitions(
+			data: IteratorFilterNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeInputDefinition[] {
+			const inputs: NodeInputDefinition[] = [];
+
+			inputs.push({
+				id: iteratorFilterConnectionIds.graph,
+				dataType: 'graph-reference',
+				title: 'Predicate Graph',
+				description: 'The reference to the predicate graph to call for each item.',
+				required: true,
+			});
+
+			inputs.push({
+				id: iteratorFilterConnectionIds.iteratorInputs,
+				dataType: 'object[]',
+				title: 'Iterator Inputs Array',
+				description: predicateGraphHelperMessage,
+				required: true,
+			});
+
+			if (data.useChunkSizeToggle) {
+				inputs.push({
+					id: iteratorFilterConnectionIds.chunkSize,
+					dataType: 'number',
+					title: 'Chunk Size',
+					description: 'The concurrency limit: The number of items to process at the same time.',
+					data: data.chunkSize,
+				});
+			}
+
+			return inputs;
+		},
+
+		getOutputDefinitions(
+			_data: IteratorFilterNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeOutputDefinition[] {
+			return [
+				{
+					id: iteratorFilterConnectionIds.keptItems,
+					dataType: 'object[]',
+					title: 'Kept Items',
+					description: 'The input items where the predicate graph returned `keep` true.',
+				},
+				{
+					id: iteratorFilterConnectionIds.rejectedItems,
+					dataType: 'object[]',
+					title: 'Rejected Items',
+					description: 'The input items where the predicate graph returned `keep` false.',
+				},
+			];
+		},
+
+		getUIData(): NodeUIData {
+			return {
+				contextMenuTitle: 'Iterator Filter Node',
+				group: 'Logic',
+				infoBoxBody: rivet.dedent`This is an iterator filter node.  This node will run the predicate graph for each item concurrently, and split the array into the kept and rejected items.
+
+          ${predicateGraphHelperMessage}`,
+				infoBoxTitle: 'Iterator Filter Node',
+			};
+		},
+
+		getEditors(_data: IteratorFilterNodeData): EditorDefinition<IteratorFilterNode>[] {
+			return [
+				{
+					type: 'number',
+					dataKey: 'chunkSize',
+					label: 'Chunk size',
+					defaultValue: 1,
+					min: 1,
+					max: 20,
+					helperMessage:
+						'The number of items to process at the same time.  This will help process arrays quickly while not overloading the system.  Recommended to keep this below 10 for subgraphs that make network calls or stream model responses.',
+					useInputToggleDataKey: 'useChunkSizeToggle',
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableCache',
+					label: 'Cache Execution',
+					helperMessage: rivet.dedent`If true, the node will cache the successful results of the previous predicate graph executions. It will use the cached results for the same item inputs.`,
+				},
+			];
+		},
+
+		getBody(data: IteratorFilterNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
+			return rivet.dedent`Iterator Filter Node
+				Chunk Size: ${data.chunkSize}
+				Enable Cache: ${data.enableCache}
+      `;
+		},
+
+		async process(data: IteratorFilterNodeData, inputData: Inputs, context: InternalProcessContext): Promise<Outputs> {
+			const outputs: Outputs = {};
+
+			const setError = (message: string) => {
+				outputs[iteratorFilterConnectionIds.keptItems] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[iteratorFilterConnectionIds.rejectedItems] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[iteratorFilterConnectionIds.error] = {
+					type: 'string',
+					value: message,
+				};
+				return outputs;
+			};
+
+			// get the inputs
+			const graphRef = rivet.coerceType(inputData[iteratorFilterConnectionIds.graph], 'graph-reference');
+			const iteratorInputs = rivet.coerceType(inputData[iteratorFilterConnectionIds.iteratorInputs], 'object[]');
+			let chunkSize =
+				rivet.coerceTypeOptional(inputData[iteratorFilterConnectionIds.chunkSize], 'number') ?? data.chunkSize;
+			chunkSize = chunkSize > 0 ? chunkSize : 1;
+
+			if (iteratorInputs.some((s) => typeof s !== 'object' || s == null)) {
+				return setError(
+					rivet.dedent`Input array must be an array of objects.  Each object needs to be a DataValue.  A graph needs an object with keys that match the graph's input ports`
+				);
+			}
+
+			/**
+			 * get the graph
+			 */
+			const graph = context.project.graphs[graphRef.graphId];
+			if (graph == null) {
+				return setError(`Graph reference is invalid for graph ${graphRef.graphName}`);
+			}
+			const graphRevalidationDigest = await createGraphDigest([graph]);
+			const cacheNamespace = graphRef.graphId as string;
+			const enableCache = data.enableCache && cacheNamespace != null;
+			const cacheStorage = getCacheStorageForNamespace(cacheNamespace, graphRevalidationDigest);
+
+			// validate input items to make sure they have all keys of the graph's input ports
+			const missingKeys = new Set<string>();
+			const notDataValue = new Set<string>();
+			const invalidInputs = iteratorInputs.some((item) => {
+				return validateGraphInput(rivet, item, graph, missingKeys, notDataValue);
+			});
+			if (invalidInputs) {
+				return setError(
+					`Input validation error: Missing inputs required for graph: ${Array.from(missingKeys).join('; ')}`
+				);
+			}
+
+			let abortIteration = context.signal.aborted;
+			const onAbort = () => {
+				abortIteration = true;
+			};
+			context.signal.addEventListener('abort', onAbort);
+
+			// create a queue to process the array
+			const queue = new PQueue({ concurrency: chunkSize });
+
+			const addToQueue = iteratorInputs.map((item: unknown, index) => {
+				return queue.add(async (): Promise<{ keep: boolean } | { error: string }> => {
+					await sleep(1);
+					if (abortIteration) {
+						return { error: `Aborted ${graphRef.graphName}` };
+					}
+
+					const node = rivet.callGraphNode.impl.create();
+					node.id = rivet.newId<NodeId>();
+					const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
+
+					const predicateInputData: Inputs = {
+						[callGraphConnectionIds.graph]: inputData[iteratorFilterConnectionIds.graph],
+						[callGraphConnectionIds.inputs]: isObjectDataValue(rivet, item)
+							? item
+							: ({ type: 'object', value: item as Record<string, unknown> } satisfies ObjectDataValue),
+					};
+
+					try {
+						let graphOutput: Outputs | null = null;
+						let cacheHit = false;
+						const cacheKey = await createObjectDigest(predicateInputData);
+						if (enableCache) {
+							graphOutput = await getCachedItem<Outputs>(cacheStorage, cacheKey);
+							if (graphOutput != null) {
+								await sleep(10);
+								console.log(`Iterator Filter ${index}: Using cached value`);
+								cacheHit = true;
+							}
+						}
+
+						if (graphOutput == null) {
+							graphOutput = await impl.process(predicateInputData, context);
+						}
+
+						const predicateOutputs = rivet.coerceType(graphOutput[callGraphConnectionIds.outputs], 'object');
+						const keep = predicateOutputs?.[predicateGraphOutputId] as DataValue | undefined;
+						if (keep == null) {
+							abortIteration = true;
+							return {
+								error: `Predicate graph ${graphRef.graphName} did not return a \`${predicateGraphOutputId}\` output`,
+							};
+						}
+						if (keep.type !== 'boolean') {
+							abortIteration = true;
+							return {
+								error: `Predicate graph ${graphRef.graphName} returned a \`${predicateGraphOutputId}\` output of type ${keep.type}, it must be a boolean`,
+							};
+						}
+						/**
+						 * only cache outputs that passed the check, so a bad output isn't replayed from the cache
+						 */
+						if (enableCache && !cacheHit) {
+							setCachedItem(cacheStorage, cacheKey, graphOutput);
+						}
+						return { keep: keep.value };
+					} catch (err) {
+						abortIteration = true;
+						return {
+							error: rivet.dedent`Error running graph ${graphRef.graphName}.
+								Message::: ${rivet.getError(err).message}
+								Input::: JSON ${JSON.stringify(item, null, 2)}
+								`,
+						};
+					}
+				}) as Promise<{ keep: boolean } | { error: string }>;
+			});
+
+			// wait for queue to finish
+			const predicateResults = await Promise.all(addToQueue);
+			await queue.onEmpty();
+			context.signal.removeEventListener('abort', onAbort);
+			await sleep(1);
+
+			if (enableCache) {
+				void cleanExpiredCache();
+			}
+
+			const itemErrors = predicateResults
+				.map((result, index) => ('error' in result ? `Item Index ${index}:: ${result.error}` : null))
+				.filter((f) => f != null);
+			if (itemErrors.length > 0) {
+				return setError(rivet.dedent`${context.signal.aborted ? 'Iterator Filter was aborted!\n' : ''}
+					ItemErrors:
+					${itemErrors.join(';\n  ')}`);
+			}
+
+			outputs[iteratorFilterConnectionIds.keptItems] = {
+				type: 'object[]',
+				value: iteratorInputs.filter((_, index) => (predicateResults[index] as { keep: boolean }).keep),
+			};
+			outputs[iteratorFilterConnectionIds.rejectedItems] = {
+				type: 'object[]',
+				value: iteratorInputs.filter((_, index) => !(predicateResults[index] as { keep: boolean }).keep),
+			};
+			return outputs;
+		},
+	};
+
+	// Once a node is defined, you must pass it to rivet.pluginNodeDefinition, which will return a valid
+	// PluginNodeDefinition object.
+	const iteratorFilterNode = rivet.pluginNodeDefinition(IteratorFilterNodeImpl, 'Iterator Filter Node');
+
+	// This definition should then be used in the `register` function of your plugin definition.
+	return iteratorFilterNode;
+}
@@ -28,6 +28,8 @@ import PQueue from 'p-queue';
 import { createDigest } from '../helpers/createDigest.js';
 import { isObjectDataValue } from '../helpers/dataValueHelpers.js';
 import { validateGraphInput } from './functions/validateGraphInputItem.js';
+import { getConnectedGraph, getGraphInputPorts, zipGraphInputPorts } from './functions/graphInputPorts.js';
+import { resolveItemGraphRoutes } from './functions/graphRouting.js';
 import {
 	getCacheStorageForNamespace,
 	cleanExpiredCache,
@@ -53,8 +55,44 @@ import {
 	InternalProcessContext,
 	Outputs,
 	ObjectDataValue,
+	DataValue,
+	DataType,
+	GraphReferenceValue,
+	NodeGraph,
 } from '@ironclad/rivet-core';
 import { sleep } from '../helpers/sleep.js';
+import { runWithRetry, type RetryPolicy } from '../helpers/retryPolicy.js';
+import {
+	createAdaptiveConcurrencyController,
+	type AdaptiveConcurrencyController,
+} from '../helpers/adaptiveConcurrency.js';
+import { createChildAbortController, isTimeoutError, runWithChildSignal } from '../helpers/abortable.js';
+import {
+	acquireConcurrencySlot,
+	createConcurrencyLimiter,
+	getConcurrencyPool,
+	getHeldConcurrencyPools,
+	heldConcurrencyPoolsGraphInputId,
+	parseConcurrencyPoolLimits,
+	type ConcurrencyLimiter,
+} from '../helpers/concurrencyPool.js';
+import { createRateLimiter } from '../helpers/rateLimiter.js';
+import {
+	projectIteratorRun,
+	summarizeIteratorMetrics,
+	type ItemMetrics,
+	type ItemStatus,
+} from '../helpers/iteratorMetrics.js';
+import { getSampleIndices, type SampleMode } from '../helpers/sampling.js';
+import { updateDeadLetterStorage, type DeadLetterItem } from '../helpers/deadLetterStorage.js';
+import {
+	clearCheckpoint,
+	createCheckpointRunKey,
+	flushCheckpoint,
+	getCheckpointItem,
+	getCheckpointStorage,
+	setCheckpointItem,
+} from '../helpers/checkpointStorage.js';
 import { stringify } from 'superjson';
 
 const callGraphConnectionIds = {
@@ -65,6 +103,15 @@ const callGraphConnectionIds = {
 	index: 'index' as PortId,
 } as const;
 
+/**
+ * The graph input and output ids of a batch graph
+ */
+const batchGraphIds = {
+	items: 'items',
+} as const;
+
+const graphInputPortPrefix = 'graphInput-';
+const routeGraphPortPrefix = 'route-';
 const iteratorConnectionIds = {
 	iteratorInputs: 'iteratorInputs' as PortId,
 	iteratorOutputs: 'iteratorOutputs' as PortId,
@@ -72,6 +119,26 @@ const iteratorConnectionIds = {
 	chunkSize: 'chunkSize' as PortId,
 	error: 'error' as PortId,
 	enableCache: 'enableCache' as PortId,
+	maxAttempts: 'maxAttempts' as PortId,
+	retryBaseDelayMs: 'retryBaseDelayMs' as PortId,
+	retryBackoffMultiplier: 'retryBackoffMultiplier' as PortId,
+	retryJitter: 'retryJitter' as PortId,
+	retryableErrors: 'retryableErrors' as PortId,
+	attempts: 'attempts' as PortId,
+	failedItems: 'failedItems' as PortId,
+	maxStartsPerInterval: 'maxStartsPerInterval' as PortId,
+	rateLimitIntervalMs: 'rateLimitIntervalMs' as PortId,
+	finalConcurrency: 'finalConcurrency' as PortId,
+	itemTimeoutMs: 'itemTimeoutMs' as PortId,
+	batchSize: 'batchSize' as PortId,
+	deduplicatedCount: 'deduplicatedCount' as PortId,
+	metrics: 'metrics' as PortId,
+	sampleProjection: 'sampleProjection' as PortId,
+	resumedCount: 'resumedCount' as PortId,
+	graphInputPrefix: graphInputPortPrefix as PortId,
+	getGraphInputId: (id: string) => `${graphInputPortPrefix}${id}` as PortId,
+	routeGraphPrefix: routeGraphPortPrefix as PortId,
+	getRouteGraphId: (id: number | string) => `${routeGraphPortPrefix}${id.toString()}` as PortId,
 } as const;
 
 // This defines your new type of node.
@@ -82,6 +149,101 @@ export type IteratorNodeData = {
 	chunkSize: number;
 	enableCache: boolean;
 	useChunkSizeToggle: boolean;
+	/**
+	 * Retry policy for each item
+	 */
+	maxAttempts?: number;
+	useMaxAttemptsToggle?: boolean;
+	retryBaseDelayMs?: number;
+	useRetryBaseDelayMsToggle?: boolean;
+	retryBackoffMultiplier?: number;
+	useRetryBackoffMultiplierToggle?: boolean;
+	retryJitter?: number;
+	useRetryJitterToggle?: boolean;
+	retryableErrors?: string[];
+	useRetryableErrorsToggle?: boolean;
+	/**
+	 * Finish all items even if some fail, and output the failures separately
+	 */
+	continueOnError?: boolean;
+	/**
+	 * Keep failed items in the outputs as null, so outputs line up with the inputs
+	 */
+	preserveOrderOnError?: boolean;
+	/**
+	 * The name of the dead-letter store that keeps the failed items of each run
+	 */
+	deadLetterStore?: string;
+	/**
+	 * Rate limit: the number of graph calls, retries included, that can start per interval.  0 disables the rate limit
+	 */
+	maxStartsPerInterval?: number;
+	useMaxStartsPerIntervalToggle?: boolean;
+	rateLimitIntervalMs?: number;
+	useRateLimitIntervalMsToggle?: boolean;
+	/**
+	 * fixed: use the chunk size.  adaptive: start at the chunk size and adjust concurrency between min and max
+	 */
+	concurrencyMode?: 'fixed' | 'adaptive';
+	minConcurrency?: number;
+	maxConcurrency?: number;
+	/**
+	 * The item key holding the item's priority.  Items with a higher priority start first, outputs keep the input order
+	 */
+	priorityKey?: string;
+	/**
+	 * Items of every node using the same pool name in the run share the pool's limit, set in the plugin config
+	 */
+	concurrencyPool?: string;
+	/**
+	 * Cancel an item attempt if it runs longer than this.  0 disables the timeout
+	 */
+	itemTimeoutMs?: number;
+	useItemTimeoutMsToggle?: boolean;
+	/**
+	 * Send groups of items to one graph call as the `items` graph input
+	 */
+	enableBatchMode?: boolean;
+	batchSize?: number;
+	useBatchSizeToggle?: boolean;
+	/**
+	 * Create an input port for each graph input of the referenced graph, which is either broadcast or iterated
+	 */
+	enableGraphInputPorts?: boolean;
+	/**
+	 * The graph input ids that are passed to every item as is.  The other graph input ports are iterated
+	 */
+	broadcastInputs?: string[];
+	/**
+	 * Each item runs the graph of its route: a graph reference, or the number or graph name of a route port
+	 */
+	enableRouting?: boolean;
+	/**
+	 * The item key holding the route
+	 */
+	routeKey?: string;
+	/**
+	 * Identical items only run the graph once, the duplicates reuse the outputs
+	 */
+	deduplicateItems?: boolean;
+	/**
+	 * Output the execution metrics of the run
+	 */
+	enableMetrics?: boolean;
+	/**
+	 * Only run a sample of the items, and project the time of a full run
+	 */
+	sampleMode?: SampleMode;
+	sampleSize?: number;
+	sampleSeed?: number;
+	/**
+	 * Comma separated indices of the items to run, for the indices sample mode
+	 */
+	sampleIndices?: string;
+	/**
+	 * Save the outputs of completed items, so a rerun with the same inputs resumes where it stopped
+	 */
+	enableCheckpoint?: boolean;
 };
 
 // Make sure you export functions that take in the Rivet library, so that you do not
@@ -107,6 +269,44 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 					chunkSize: 5,
 					useChunkSizeToggle: false,
 					enableCache: false,
+					maxAttempts: 1,
+					useMaxAttemptsToggle: false,
+					retryBaseDelayMs: 1000,
+					useRetryBaseDelayMsToggle: false,
+					retryBackoffMultiplier: 2,
+					useRetryBackoffMultiplierToggle: false,
+					retryJitter: 0.2,
+					useRetryJitterToggle: false,
+					retryableErrors: [],
+					useRetryableErrorsToggle: false,
+					continueOnError: false,
+					preserveOrderOnError: false,
+					deadLetterStore: '',
+					maxStartsPerInterval: 0,
+					useMaxStartsPerIntervalToggle: false,
+					rateLimitIntervalMs: 60000,
+					useRateLimitIntervalMsToggle: false,
+					concurrencyMode: 'fixed',
+					minConcurrency: 1,
+					maxConcurrency: 20,
+					concurrencyPool: '',
+					priorityKey: '',
+					itemTimeoutMs: 0,
+					useItemTimeoutMsToggle: false,
+					enableBatchMode: false,
+					batchSize: 10,
+					useBatchSizeToggle: false,
+					enableGraphInputPorts: false,
+					broadcastInputs: [],
+					enableRouting: false,
+					routeKey: 'route',
+					deduplicateItems: false,
+					enableMetrics: false,
+					sampleMode: 'off',
+					sampleSize: 10,
+					sampleSeed: 1,
+					sampleIndices: '',
+					enableCheckpoint: false,
 				} satisfies IteratorNodeData,
 
 				// This is the default title of your node.
@@ -129,28 +329,68 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 		// connection, nodes, and project are for advanced use-cases and can usually be ignored.
 		getInputDefinitions(
 			data: IteratorNodeData,
-			_connections: NodeConnection[],
-			_nodes: Record<NodeId, ChartNode>,
-			_project: Project
+			connections: NodeConnection[],
+			nodes: Record<NodeId, ChartNode>,
+			project: Project
 		): NodeInputDefinition[] {
 			const inputs: NodeInputDefinition[] = [];
 
 			inputs.push({
 				id: iteratorConnectionIds.graph,
 				dataType: 'graph-reference',
-				title: 'Graph',
-				description: 'The reference to the graph to call.',
-				required: true,
+				title: data.enableRouting ? 'Default Graph' : 'Graph',
+				description: data.enableRouting
+					? 'The reference to the graph to call for items without a route.'
+					: 'The reference to the graph to call.',
+				required: !data.enableRouting,
 			});
 
+			if (data.enableRouting) {
+				const routeGraphCount = connections.filter((f) =>
+					f.inputId.startsWith(iteratorConnectionIds.routeGraphPrefix)
+				).length;
+				for (let i = 0; i <= routeGraphCount; i++) {
+					inputs.push({
+						id: iteratorConnectionIds.getRouteGraphId(i),
+						dataType: 'graph-reference',
+						title: `Route ${i} Graph`,
+						description: `The reference to the graph to call for items with the route \`${i}\` or the name of this graph.`,
+						required: false,
+					});
+				}
+			}
+
 			inputs.push({
 				id: iteratorConnectionIds.iteratorInputs,
 				dataType: 'object[]',
 				title: 'Iterator Inputs Array',
 				description: iteratorInputOutputsHelperMessage,
-				required: true,
+				required: !data.enableGraphInputPorts,
 			});
 
+			if (data.enableGraphInputPorts) {
+				/**
+				 * graph input ports are generated from the graph selected in the connected Graph Reference node
+				 */
+				const graph = getConnectedGraph(connections, nodes, project, iteratorConnectionIds.graph);
+				for (const graphInput of graph ? getGraphInputPorts(graph) : []) {
+					const isBroadcast = data.broadcastInputs?.includes(graphInput.id) ?? false;
+					inputs.push({
+						id: iteratorConnectionIds.getGraphInputId(graphInput.id),
+						dataType: isBroadcast
+							? graphInput.dataType
+							: rivet.isArrayDataType(graphInput.dataType)
+								? 'any[]'
+								: (`${rivet.getScalarTypeOf(graphInput.dataType)}[]` as DataType),
+						title: `${graphInput.id} (${isBroadcast ? 'broadcast' : 'iterate'})`,
+						description: isBroadcast
+							? `Broadcast: the value is passed to the graph input \`${graphInput.id}\` of every item.`
+							: `Iterate: an array that is zipped by index, item i receives element i as the graph input \`${graphInput.id}\`.`,
+						required: false,
+					});
+				}
+			}
+
 			if (data.useChunkSizeToggle) {
 				inputs.push({
 					id: iteratorConnectionIds.chunkSize,
@@ -161,6 +401,98 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 				});
 			}
 
+			if (data.useMaxStartsPerIntervalToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.maxStartsPerInterval,
+					dataType: 'number',
+					title: 'Max Starts Per Interval',
+					description:
+						'The rate limit: The number of graph calls, retries included, that can start per interval.  0 disables the rate limit.',
+					data: data.maxStartsPerInterval,
+				});
+			}
+
+			if (data.useRateLimitIntervalMsToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.rateLimitIntervalMs,
+					dataType: 'number',
+					title: 'Rate Limit Interval (ms)',
+					description: 'The length of the rate limit interval in milliseconds.',
+					data: data.rateLimitIntervalMs,
+				});
+			}
+
+			if (data.enableBatchMode && data.useBatchSizeToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.batchSize,
+					dataType: 'number',
+					title: 'Batch Size',
+					description: 'The number of items sent to one graph call.',
+					data: data.batchSize,
+				});
+			}
+
+			if (data.useItemTimeoutMsToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.itemTimeoutMs,
+					dataType: 'number',
+					title: 'Item Timeout (ms)',
+					description: 'Cancel an item attempt if it runs longer than this.  0 disables the timeout.',
+					data: data.itemTimeoutMs,
+				});
+			}
+
+			if (data.useMaxAttemptsToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.maxAttempts,
+					dataType: 'number',
+					title: 'Max Attempts',
+					description: 'The number of times each item is attempted before it counts as failed.',
+					data: data.maxAttempts,
+				});
+			}
+
+			if (data.useRetryBaseDelayMsToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.retryBaseDelayMs,
+					dataType: 'number',
+					title: 'Retry Base Delay (ms)',
+					description: 'The delay before the first retry.  Following retries are delayed exponentially.',
+					data: data.retryBaseDelayMs,
+				});
+			}
+
+			if (data.useRetryBackoffMultiplierToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.retryBackoffMultiplier,
+					dataType: 'number',
+					title: 'Retry Backoff Multiplier',
+					description: 'Each retry delay is the previous delay multiplied by this number.',
+					data: data.retryBackoffMultiplier,
+				});
+			}
+
+			if (data.useRetryJitterToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.retryJitter,
+					dataType: 'number',
+					title: 'Retry Jitter',
+					description: 'Fraction of the retry delay that is randomised, between 0 and 1.',
+					data: data.retryJitter,
+				});
+			}
+
+			if (data.useRetryableErrorsToggle) {
+				inputs.push({
+					id: iteratorConnectionIds.retryableErrors,
+					dataType: 'string[]',
+					title: 'Retryable Errors',
+					description:
+						'Only errors whose message contains one of these values are retried (case insensitive).  Empty retries every error.',
+					data: data.retryableErrors,
+				});
+			}
+
 			return inputs;
 		},
 
@@ -172,13 +504,78 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 			_nodes: Record<NodeId, ChartNode>,
 			_project: Project
 		): NodeOutputDefinition[] {
-			return [
-				{
-					id: iteratorConnectionIds.iteratorOutputs,
+			const outputs: NodeOutputDefinition[] = [];
+
+			outputs.push({
+				id: iteratorConnectionIds.iteratorOutputs,
+				dataType: 'object[]',
+				title: 'Iterator Output Array',
+			});
+
+			if (data.concurrencyMode === 'adaptive') {
+				outputs.push({
+					id: iteratorConnectionIds.finalConcurrency,
+					dataType: 'number',
+					title: 'Final Concurrency',
+					description: 'The concurrency level the adaptive controller ended at.',
+				});
+			}
+
+			if (data.enableCheckpoint) {
+				outputs.push({
+					id: iteratorConnectionIds.resumedCount,
+					dataType: 'number',
+					title: 'Resumed Count',
+					description:
+						'The number of items that were resumed from the checkpoint of a previous run instead of running the graph.',
+				});
+			}
+
+			if (data.enableMetrics) {
+				outputs.push({
+					id: iteratorConnectionIds.metrics,
+					dataType: 'object',
+					title: 'Metrics',
+					description: rivet.dedent`The execution metrics of the run.  \`items\` has the start time, graph run duration, \`queuedMs\` (time waiting for the rate limit, a pool slot and retry backoff), cache hit, resumed flag, attempts and status of each item.  The aggregates are \`totalWallTimeMs\`, \`p50LatencyMs\`, \`p95LatencyMs\`, \`throughputPerSecond\` and \`cacheHitRatio\`.`,
+				});
+			}
+
+			if ((data.sampleMode ?? 'off') !== 'off') {
+				outputs.push({
+					id: iteratorConnectionIds.sampleProjection,
+					dataType: 'object',
+					title: 'Sample Projection',
+					description: rivet.dedent`The projection of a full run from the sample.  \`sampledIndices\` has the input index of each output.  The projection is \`totalCount\`, \`projectedGraphCalls\` and \`projectedTotalTimeMs\`, based on the \`meanLatencyMs\` of the sample.`,
+				});
+			}
+
+			if (data.deduplicateItems) {
+				outputs.push({
+					id: iteratorConnectionIds.deduplicatedCount,
+					dataType: 'number',
+					title: 'Deduplicated Count',
+					description: 'The number of items that reused the outputs of an identical item instead of running the graph.',
+				});
+			}
+
+			if (data.continueOnError) {
+				outputs.push({
+					id: iteratorConnectionIds.failedItems,
 					dataType: 'object[]',
-					title: 'Iterator Output Array',
-				},
-			];
+					title: 'Failed Items',
+					description:
+						'The items that failed.  Each entry is an object `{index, input, error, timedOut}` with the index in the input array, the original input item, the error message and whether the item timed out.',
+				});
+			}
+
+			outputs.push({
+				id: iteratorConnectionIds.attempts,
+				dataType: 'number[]',
+				title: 'Attempts',
+				description: 'The number of attempts each item took, in input order.  Cached items take 0 attempts.',
+			});
+
+			return outputs;
 		},
 
 		// This returns UI information for your node, such as how it appears in the context menu.
@@ -207,12 +604,270 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 						'The number of items to process at the same time.  This will help process arrays quickly while not overloading the system.  Recommended to keep this below 10 for subgraphs that make network calls or stream model responses.',
 					useInputToggleDataKey: 'useChunkSizeToggle',
 				},
+				{
+					type: 'dropdown',
+					dataKey: 'concurrencyMode',
+					label: 'Concurrency mode',
+					options: [
+						{ value: 'fixed', label: 'Fixed (chunk size)' },
+						{ value: 'adaptive', label: 'Adaptive' },
+					],
+					defaultValue: 'fixed',
+					helperMessage:
+						'Adaptive starts at the chunk size.  It raises concurrency while items succeed at a stable latency, and cuts it when items fail or slow down.',
+				},
+				{
+					type: 'number',
+					dataKey: 'minConcurrency',
+					label: 'Min concurrency',
+					defaultValue: 1,
+					min: 1,
+					hideIf: (data) => data.concurrencyMode !== 'adaptive',
+				},
+				{
+					type: 'number',
+					dataKey: 'maxConcurrency',
+					label: 'Max concurrency',
+					defaultValue: 20,
+					min: 1,
+					hideIf: (data) => data.concurrencyMode !== 'adaptive',
+				},
+				{
+					type: 'string',
+					dataKey: 'priorityKey',
+					label: 'Priority key',
+					helperMessage: rivet.dedent`Optional item key holding a number priority.  Items with a higher priority start first, items without one have priority 0.  Outputs still come back in input order.`,
+				},
+				{
+					type: 'string',
+					dataKey: 'concurrencyPool',
+					label: 'Concurrency pool',
+					helperMessage: rivet.dedent`Optional pool name.  Items of all nodes using the same pool, in any graph of the run, share the pool's limit on top of the chunk size.  Pool limits are set in the plugin settings, e.g. \`openai: 8\`; a pool that isn't configured uses this node's chunk size.  An iterator in the item graph itself, using the same pool, lends one slot from its parent item.  An iterator deeper down, inside a subgraph of the item graph, doesn't see that slot, so give it a different pool.`,
+				},
 				{
 					type: 'toggle',
 					dataKey: 'enableCache',
 					label: 'Cache Execution',
 					helperMessage: rivet.dedent`If true, the node will cache the successful results of the previous call graph executions. It will use the cached results for the same item inputs.`,
 				},
+				{
+					type: 'group',
+					label: 'Rate Limit',
+					editors: [
+						{
+							type: 'number',
+							dataKey: 'maxStartsPerInterval',
+							label: 'Max starts per interval',
+							defaultValue: 0,
+							min: 0,
+							helperMessage:
+								"The number of graph calls, retries included, that can start per interval, in addition to the chunk size concurrency limit.  Cache hits and resumed items don't count.  Use this to respect provider limits such as requests per minute.  0 disables the rate limit.",
+							useInputToggleDataKey: 'useMaxStartsPerIntervalToggle',
+						},
+						{
+							type: 'number',
+							dataKey: 'rateLimitIntervalMs',
+							label: 'Interval (ms)',
+							defaultValue: 60000,
+							min: 1,
+							helperMessage: 'The length of the rate limit interval.  e.g. 60000 for requests per minute.',
+							useInputToggleDataKey: 'useRateLimitIntervalMsToggle',
+						},
+					],
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableGraphInputPorts',
+					label: 'Graph input ports',
+					helperMessage: rivet.dedent`If true, the node has an input port for each graph input of the graph selected in the connected Graph Reference node, so items don't have to be built by hand.  Iterated ports take an array that is zipped by index (with the Iterator Inputs Array, if connected).  Broadcast ports pass the same value to every item.  The iterated arrays must have the same length.`,
+				},
+				{
+					type: 'stringList',
+					dataKey: 'broadcastInputs',
+					label: 'Broadcast inputs',
+					placeholder: 'Graph input id',
+					helperMessage:
+						'The graph input ids that are passed to every item as is.  All other graph input ports are iterated.',
+					hideIf: (data) => !data.enableGraphInputPorts,
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableRouting',
+					label: 'Routing',
+					helperMessage: rivet.dedent`If true, each item runs the graph of its route, so different tasks can run in one concurrent batch.  The route is read from the route key of the item: a graph reference, or the number of a connected route port, or the name of its graph.  Items without a route run the default graph.  Each graph has its own cache.`,
+				},
+				{
+					type: 'string',
+					dataKey: 'routeKey',
+					label: 'Route key',
+					placeholder: 'route',
+					helperMessage: 'The item key holding the route.',
+					hideIf: (data) => !data.enableRouting,
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableBatchMode',
+					label: 'Batch mode',
+					helperMessage: rivet.dedent`If true, items are sent to the graph in batches.  The graph receives the \`items\` input (object[]) and must return an \`items\` output (object[]) with one output per item, in the same order.  Chunk size, retries, timeouts and caching apply per batch.`,
+				},
+				{
+					type: 'number',
+					dataKey: 'batchSize',
+					label: 'Batch size',
+					defaultValue: 10,
+					min: 1,
+					helperMessage: 'The number of items sent to one graph call.',
+					useInputToggleDataKey: 'useBatchSizeToggle',
+					hideIf: (data) => !data.enableBatchMode,
+				},
+				{
+					type: 'number',
+					dataKey: 'itemTimeoutMs',
+					label: 'Item timeout (ms)',
+					defaultValue: 0,
+					min: 0,
+					helperMessage:
+						'Cancel an item attempt if it runs longer than this.  The running subgraph is aborted and the attempt is marked as timed out, and retried if retries are enabled.  0 disables the timeout.',
+					useInputToggleDataKey: 'useItemTimeoutMsToggle',
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableCheckpoint',
+					label: 'Checkpoint',
+					helperMessage: rivet.dedent`If true, the outputs of completed items are saved as they finish, under a run key made of the graph and the input array.  A rerun with the same graph and inputs resumes where the previous run stopped, for example after an abort.  The checkpoint is deleted once every item succeeds, and expires after 24 hours.`,
+				},
+				{
+					type: 'group',
+					label: 'Sample',
+					editors: [
+						{
+							type: 'dropdown',
+							dataKey: 'sampleMode',
+							label: 'Sample mode',
+							options: [
+								{ value: 'off', label: 'Off (all items)' },
+								{ value: 'first', label: 'First N items' },
+								{ value: 'random', label: 'Random sample' },
+								{ value: 'indices', label: 'Specific indices' },
+							],
+							defaultValue: 'off',
+							helperMessage:
+								'Run the graph on a subset of the items before spending on the full run.  The node outputs the sampled results and a projection of the full run time and item count, based on the measured latency.',
+						},
+						{
+							type: 'number',
+							dataKey: 'sampleSize',
+							label: 'Sample size',
+							defaultValue: 10,
+							min: 0,
+							hideIf: (data) => data.sampleMode !== 'first' && data.sampleMode !== 'random',
+						},
+						{
+							type: 'number',
+							dataKey: 'sampleSeed',
+							label: 'Seed',
+							defaultValue: 1,
+							helperMessage: 'The same seed picks the same items.',
+							hideIf: (data) => data.sampleMode !== 'random',
+						},
+						{
+							type: 'string',
+							dataKey: 'sampleIndices',
+							label: 'Indices',
+							placeholder: '0, 5, 12',
+							helperMessage: 'Comma separated indices of the items to run.',
+							hideIf: (data) => data.sampleMode !== 'indices',
+						},
+					],
+				},
+				{
+					type: 'toggle',
+					dataKey: 'enableMetrics',
+					label: 'Output metrics',
+					helperMessage:
+						'If true, the node outputs the execution metrics of the run: per item durations, cache hits, attempts and status, along with latency percentiles, throughput and the cache hit ratio.',
+				},
+				{
+					type: 'toggle',
+					dataKey: 'deduplicateItems',
+					label: 'Deduplicate items',
+					helperMessage: rivet.dedent`If true, identical items in the same run only run the graph once, and the duplicates reuse the outputs.  In batch mode duplicates are removed before the items are grouped into batches.  Disable this if the graph should run again for duplicates, for example to sample different model responses.`,
+				},
+				{
+					type: 'toggle',
+					dataKey: 'continueOnError',
+					label: 'Continue on error',
+					helperMessage: rivet.dedent`If true, a failed item does not stop the iteration.  The successful outputs are returned and the failures are output in the Failed Items port.`,
+				},
+				{
+					type: 'toggle',
+					dataKey: 'preserveOrderOnError',
+					label: 'Keep input order',
+					helperMessage: 'If true, failed items are output as null so the outputs line up with the inputs.',
+					hideIf: (data) => !data.continueOnError,
+				},
+				{
+					type: 'string',
+					dataKey: 'deadLetterStore',
+					label: 'Dead-letter store',
+					helperMessage: rivet.dedent`Optional store name.  The failed and timed out items of each run are kept in the store, and items that succeed are removed from it.  Use the Dead Letter Node with the same name to list the failures, clear them, or feed them back into an iterator to rerun only the failed items.`,
+				},
+				{
+					type: 'group',
+					label: 'Retry',
+					editors: [
+						{
+							type: 'number',
+							dataKey: 'maxAttempts',
+							label: 'Max attempts',
+							defaultValue: 1,
+							min: 1,
+							max: 10,
+							helperMessage:
+								'The number of times each item is attempted before it counts as failed.  1 disables retries.',
+							useInputToggleDataKey: 'useMaxAttemptsToggle',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryBaseDelayMs',
+							label: 'Base delay (ms)',
+							defaultValue: 1000,
+							min: 0,
+							helperMessage: 'The delay before the first retry.',
+							useInputToggleDataKey: 'useRetryBaseDelayMsToggle',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryBackoffMultiplier',
+							label: 'Backoff multiplier',
+							defaultValue: 2,
+							min: 1,
+							step: 0.5,
+							helperMessage: 'Each retry delay is the previous delay multiplied by this number.',
+							useInputToggleDataKey: 'useRetryBackoffMultiplierToggle',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryJitter',
+							label: 'Jitter',
+							defaultValue: 0.2,
+							min: 0,
+							max: 1,
+							step: 0.1,
+							helperMessage: 'Fraction of the delay that is randomised, so retries of concurrent items do not line up.',
+							useInputToggleDataKey: 'useRetryJitterToggle',
+						},
+						{
+							type: 'stringList',
+							dataKey: 'retryableErrors',
+							label: 'Retryable errors',
+							placeholder: 'e.g. 429',
+							helperMessage:
+								'Only errors whose message contains one of these values are retried (case insensitive).  Leave empty to retry every error.',
+							useInputToggleDataKey: 'useRetryableErrorsToggle',
+						},
+					],
+				},
 			];
 		},
 
@@ -220,8 +875,38 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 		// what the current data of the node is in some way that is useful at a glance.
 		getBody(data: IteratorNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
 			return rivet.dedent`Iterator Node
-				Chunk Size: ${data.chunkSize}
+				Chunk Size: ${data.chunkSize}${
+					data.concurrencyMode === 'adaptive'
+						? ` (adaptive ${data.minConcurrency ?? 1} - ${data.maxConcurrency ?? 20})`
+						: ''
+				}
+				Concurrency Pool: ${data.concurrencyPool || 'none'}
+				Priority Key: ${data.priorityKey || 'none'}
 				Enable Cache: ${data.enableCache}
+				Checkpoint: ${data.enableCheckpoint ?? false}
+				Deduplicate Items: ${data.deduplicateItems ?? false}
+				Graph Input Ports: ${data.enableGraphInputPorts ?? false}
+				Sample: ${
+					(data.sampleMode ?? 'off') === 'off'
+						? 'off'
+						: data.sampleMode === 'indices'
+							? `indices ${data.sampleIndices ?? ''}`
+							: `${data.sampleMode} ${data.sampleSize ?? 10}`
+				}
+				Routing: ${data.enableRouting ? `by ${data.routeKey || 'route'}` : 'off'}
+				Batch Size: ${
+					data.enableBatchMode ? (data.useBatchSizeToggle ? '(using input)' : (data.batchSize ?? 10)) : 'off'
+				}
+				Rate Limit: ${
+					data.useMaxStartsPerIntervalToggle || data.useRateLimitIntervalMsToggle
+						? '(using input)'
+						: data.maxStartsPerInterval
+							? `${data.maxStartsPerInterval} per ${data.rateLimitIntervalMs ?? 60000}ms`
+							: 'none'
+				}
+				Max Attempts: ${data.useMaxAttemptsToggle ? '(using input)' : (data.maxAttempts ?? 1)}
+				Continue On Error: ${data.continueOnError ?? false}
+				Dead-letter Store: ${data.deadLetterStore || 'none'}
       `;
 		},
 
@@ -230,17 +915,139 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 		// must also correspond to the output definitions you defined in the getOutputDefinitions function.
 		async process(data: IteratorNodeData, inputData: Inputs, context: InternalProcessContext): Promise<Outputs> {
 			const outputs: Outputs = {};
-
-			let abortIteration = false;
-			context.signal.addEventListener('abort', () => {
-				abortIteration = true;
-			});
+			const runStartTime = Date.now();
 
 			// get the inputs
-			const graphRef = rivet.coerceType(inputData[iteratorConnectionIds.graph], 'graph-reference');
-			const iteratorInputs = rivet.coerceType(inputData[iteratorConnectionIds.iteratorInputs], 'object[]');
+			let iteratorInputs: Record<string, unknown>[];
+
+			/**
+			 * build the items from the graph input ports, zipped with the iterator inputs array if it is connected
+			 */
+			if (data.enableGraphInputPorts) {
+				const portInputs = Object.fromEntries(
+					Object.entries(inputData)
+						.filter(([key, value]) => key.startsWith(iteratorConnectionIds.graphInputPrefix) && value != null)
+						.map(([key, value]) => [key.slice(iteratorConnectionIds.graphInputPrefix.length), value as DataValue])
+				);
+				const zipped = zipGraphInputPorts(
+					rivet,
+					portInputs,
+					data.broadcastInputs ?? [],
+					rivet.coerceTypeOptional(inputData[iteratorConnectionIds.iteratorInputs], 'object[]')
+				);
+				if ('error' in zipped) {
+					outputs[iteratorConnectionIds.iteratorOutputs] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[iteratorConnectionIds.error] = {
+						type: 'string',
+						value: zipped.error,
+					};
+					return outputs;
+				}
+				iteratorInputs = zipped.items;
+			} else {
+				iteratorInputs = rivet.coerceType(inputData[iteratorConnectionIds.iteratorInputs], 'object[]');
+			}
+
+			/**
+			 * in sample mode only the sampled items run, the outputs are in the order of the sampled indices
+			 */
+			const sampleMode = data.sampleMode ?? 'off';
+			const totalItemCount = iteratorInputs.length;
+			let sampledIndices: number[] | undefined;
+			if (sampleMode !== 'off') {
+				const sample = getSampleIndices(sampleMode, iteratorInputs.length, {
+					size: data.sampleSize ?? 10,
+					seed: data.sampleSeed ?? 1,
+					indices: data.sampleIndices ?? '',
+				});
+				if ('error' in sample) {
+					outputs[iteratorConnectionIds.iteratorOutputs] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[iteratorConnectionIds.error] = {
+						type: 'string',
+						value: sample.error,
+					};
+					return outputs;
+				}
+				sampledIndices = sample.indices;
+				const allItems = iteratorInputs;
+				iteratorInputs = sampledIndices.map((index) => allItems[index]);
+			}
 			let chunkSize = rivet.coerceTypeOptional(inputData[iteratorConnectionIds.chunkSize], 'number') ?? data.chunkSize;
 			chunkSize = chunkSize > 0 ? chunkSize : 1;
+			const maxStartsPerInterval = Math.floor(
+				rivet.coerceTypeOptional(inputData[iteratorConnectionIds.maxStartsPerInterval], 'number') ??
+					data.maxStartsPerInterval ??
+					0
+			);
+			const rateLimitIntervalMs =
+				rivet.coerceTypeOptional(inputData[iteratorConnectionIds.rateLimitIntervalMs], 'number') ??
+				data.rateLimitIntervalMs ??
+				60000;
+			const itemTimeoutMs = Math.max(
+				rivet.coerceTypeOptional(inputData[iteratorConnectionIds.itemTimeoutMs], 'number') ?? data.itemTimeoutMs ?? 0,
+				0
+			);
+
+			const retryPolicy: RetryPolicy = {
+				maxAttempts: Math.max(
+					rivet.coerceTypeOptional(inputData[iteratorConnectionIds.maxAttempts], 'number') ?? data.maxAttempts ?? 1,
+					1
+				),
+				baseDelayMs: Math.max(
+					rivet.coerceTypeOptional(inputData[iteratorConnectionIds.retryBaseDelayMs], 'number') ??
+						data.retryBaseDelayMs ??
+						1000,
+					0
+				),
+				backoffMultiplier: Math.max(
+					rivet.coerceTypeOptional(inputData[iteratorConnectionIds.retryBackoffMultiplier], 'number') ??
+						data.retryBackoffMultiplier ??
+						2,
+					1
+				),
+				jitter: Math.min(
+					Math.max(
+						rivet.coerceTypeOptional(inputData[iteratorConnectionIds.retryJitter], 'number') ?? data.retryJitter ?? 0.2,
+						0
+					),
+					1
+				),
+				retryableErrors:
+					rivet.coerceTypeOptional(inputData[iteratorConnectionIds.retryableErrors], 'string[]') ??
+					data.retryableErrors ??
+					[],
+			};
+			let concurrencyController: AdaptiveConcurrencyController | undefined;
+			const itemAttempts: number[] = iteratorInputs.map(() => 0);
+			const itemErrorMessages: (string | undefined)[] = iteratorInputs.map(() => undefined);
+			const itemTimedOut: boolean[] = iteratorInputs.map(() => false);
+			const itemTimings: Pick<
+				ItemMetrics,
+				'startTime' | 'durationMs' | 'queuedMs' | 'cacheHit' | 'deduplicated' | 'resumed'
+			>[] = iteratorInputs.map(() => ({
+				startTime: null,
+				durationMs: null,
+				queuedMs: null,
+				cacheHit: false,
+				deduplicated: false,
+				resumed: false,
+			}));
+			const continueOnError = data.continueOnError ?? false;
+			const enableBatchMode = data.enableBatchMode ?? false;
+			const batchSize = enableBatchMode
+				? Math.max(
+						Math.floor(
+							rivet.coerceTypeOptional(inputData[iteratorConnectionIds.batchSize], 'number') ?? data.batchSize ?? 10
+						),
+						1
+					)
+				: 1;
 
 			/**
 			 * validate input array, they should all be objects
@@ -259,23 +1066,152 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 			}
 
 			/**
-			 * get the graph
+			 * get the graph of each item.  With routing each item picks its graph, otherwise every item runs the graph port
 			 */
-			const graph = context.project.graphs[graphRef.graphId];
-			const graphRevalidationDigest = await createGraphDigest([graph]);
-			const cacheNamespace = graphRef.graphId as string;
-			const enableCache = data.enableCache && cacheNamespace != null;
+			let itemGraphInputs: DataValue[];
+			if (data.enableRouting) {
+				const routeGraphs: (GraphReferenceValue | undefined)[] = [];
+				for (const [key, value] of Object.entries(inputData)) {
+					if (key.startsWith(iteratorConnectionIds.routeGraphPrefix) && value != null) {
+						routeGraphs[Number(key.slice(iteratorConnectionIds.routeGraphPrefix.length))] = {
+							type: 'graph-reference',
+							value: rivet.coerceType(value, 'graph-reference'),
+						};
+					}
+				}
+				const defaultGraphRef = rivet.coerceTypeOptional(inputData[iteratorConnectionIds.graph], 'graph-reference');
+				const routed = resolveItemGraphRoutes(
+					rivet,
+					iteratorInputs,
+					data.routeKey || 'route',
+					routeGraphs,
+					defaultGraphRef != null ? { type: 'graph-reference', value: defaultGraphRef } : undefined
+				);
+				if ('error' in routed) {
+					outputs[iteratorConnectionIds.iteratorOutputs] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[iteratorConnectionIds.error] = {
+						type: 'string',
+						value: routed.error,
+					};
+					return outputs;
+				}
+				itemGraphInputs = routed.itemGraphs;
+			} else {
+				itemGraphInputs = iteratorInputs.map(() => inputData[iteratorConnectionIds.graph] as DataValue);
+			}
+
 			/**
-			 * setup cache storage
+			 * setup the graph and cache storage of each route, each graph has its own cache namespace
 			 */
-			const cacheStorage = getCacheStorageForNamespace(cacheNamespace, graphRevalidationDigest);
+			const enableCache = data.enableCache;
+			const graphRoutes = new Map<
+				string,
+				{
+					graphInput: DataValue;
+					graphRef: GraphReferenceValue['value'];
+					graph: NodeGraph;
+					graphRevalidationDigest: string;
+					cacheStorage: ReturnType<typeof getCacheStorageForNamespace>;
+					indices: number[];
+				}
+			>();
+			for (const [index, graphInput] of itemGraphInputs.entries()) {
+				const graphRef = rivet.coerceType(graphInput, 'graph-reference');
+				const route = graphRoutes.get(graphRef.graphId);
+				if (route != null) {
+					route.indices.push(index);
+					continue;
+				}
+				const graph = context.project.graphs[graphRef.graphId];
+				if (graph == null) {
+					outputs[iteratorConnectionIds.iteratorOutputs] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[iteratorConnectionIds.error] = {
+						type: 'string',
+						value: `Graph reference is invalid for graph ${graphRef.graphName}`,
+					};
+					return outputs;
+				}
+				const graphRevalidationDigest = await createGraphDigest([graph]);
+				graphRoutes.set(graphRef.graphId, {
+					graphInput,
+					graphRef,
+					graph,
+					graphRevalidationDigest,
+					cacheStorage: getCacheStorageForNamespace(graphRef.graphId as string, graphRevalidationDigest),
+					indices: [index],
+				});
+			}
+			const itemRoutes = itemGraphInputs.map(
+				(m) =>
+					graphRoutes.get(rivet.coerceType(m, 'graph-reference').graphId) as NonNullable<
+						ReturnType<typeof graphRoutes.get>
+					>
+			);
+
+			/**
+			 * The graph inputs for a unit of items.  In batch mode the items are passed as the `items` graph input
+			 */
+			const getUnitInputs = (indices: number[]): ObjectDataValue => {
+				if (enableBatchMode) {
+					return {
+						type: 'object',
+						value: {
+							[batchGraphIds.items]: {
+								type: 'object[]',
+								value: indices.map((index) => {
+									const item = iteratorInputs[index];
+									return isObjectDataValue(rivet, item) ? item.value : item;
+								}),
+							},
+						},
+					};
+				}
+				const item = iteratorInputs[indices[0]];
+				/**
+				 * in case the item is already a DataValue, use it as is
+				 */
+				return isObjectDataValue(rivet, item) ? item : { type: 'object', value: item as Record<string, unknown> };
+			};
+
+			/**
+			 * Splits a batch graph output, the returned `items` array, back into one output per item
+			 */
+			const splitBatchOutput = (unitOutput: Outputs, indices: number[]): Outputs[] => {
+				const graphOutputs = rivet.coerceTypeOptional(unitOutput[callGraphConnectionIds.outputs], 'object');
+				const batchItems = graphOutputs?.[batchGraphIds.items] as DataValue | undefined;
+				const outputItems = batchItems == null ? [] : rivet.coerceType(batchItems, 'object[]');
+				if (outputItems.length !== indices.length) {
+					throw new Error(
+						`Batch graph must return an \`${batchGraphIds.items}\` array with one output per item.  Expected ${indices.length} items, received ${outputItems.length}`
+					);
+				}
+				return outputItems.map((outputItem, i) => ({
+					[callGraphConnectionIds.index]: {
+						type: 'number',
+						value: indices[i],
+					},
+					[callGraphConnectionIds.outputs]: isObjectDataValue(rivet, outputItem)
+						? outputItem
+						: { type: 'object', value: outputItem },
+				}));
+			};
 
 			// validate input items to make sure they have all  keys of the  graph's input ports
 			const missingKeys = new Set<string>();
 			const notDataValue = new Set<string>();
-			const invalidInputs = iteratorInputs.some((item) => {
-				return validateGraphInput(rivet, item, graph, missingKeys, notDataValue);
-			});
+			const invalidInputs = enableBatchMode
+				? [...graphRoutes.values()].some((route) =>
+						validateGraphInput(rivet, getUnitInputs([route.indices[0]]), route.graph, missingKeys, notDataValue)
+					)
+				: iteratorInputs.some((item, index) => {
+						return validateGraphInput(rivet, item, itemRoutes[index].graph, missingKeys, notDataValue);
+					});
 
 			if (invalidInputs) {
 				outputs[iteratorConnectionIds.iteratorOutputs] = {
@@ -301,107 +1237,499 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 				return outputs;
 			}
 
+			/**
+			 * Each item runs with a signal derived from the iteration signal, so in-flight items are cancelled when the
+			 * user aborts or, unless continuing on error, when a sibling item fails
+			 */
+			const { controller: iterationController, dispose: disposeIterationController } = createChildAbortController(
+				context.signal
+			);
+			let abortIteration = iterationController.signal.aborted;
+			iterationController.signal.addEventListener('abort', () => {
+				abortIteration = true;
+			});
+
 			// create a queue to process the array
-			const queue = new PQueue({ concurrency: chunkSize });
+			const queue = new PQueue({
+				concurrency: chunkSize,
+			});
+			/**
+			 * the rate limit counts graph calls, so every attempt takes a start.  Cache hits and resumed items don't call the graph
+			 */
+			const rateLimiter =
+				maxStartsPerInterval > 0 && rateLimitIntervalMs > 0
+					? createRateLimiter(maxStartsPerInterval, rateLimitIntervalMs)
+					: undefined;
+
+			if (data.concurrencyMode === 'adaptive') {
+				concurrencyController = createAdaptiveConcurrencyController({
+					minConcurrency: data.minConcurrency ?? 1,
+					maxConcurrency: data.maxConcurrency ?? 20,
+					initialConcurrency: chunkSize,
+					onChange: (concurrency) => {
+						console.log(`Iterator: Adaptive concurrency set to ${concurrency}`);
+						queue.concurrency = concurrency;
+					},
+				});
+				queue.concurrency = concurrencyController.concurrency;
+			}
+
+			/**
+			 * a named pool limits the items of every node using it in the run.  If this node runs inside an item that holds a
+			 * slot of the same pool, one of its items reuses that slot
+			 */
+			const concurrencyPoolName = data.concurrencyPool?.trim() ?? '';
+			const heldConcurrencyPools = getHeldConcurrencyPools(context.graphInputs);
+			const poolLimiters: ConcurrencyLimiter[] = [];
+			if (concurrencyPoolName !== '') {
+				const poolLimits = parseConcurrencyPoolLimits(context.getPluginConfig('concurrencyPools'));
+				if (heldConcurrencyPools.includes(concurrencyPoolName)) {
+					poolLimiters.push(createConcurrencyLimiter(`${concurrencyPoolName} (parent slot)`, 1));
+				}
+				poolLimiters.push(
+					getConcurrencyPool(context.executionCache, concurrencyPoolName, poolLimits[concurrencyPoolName] ?? chunkSize)
+				);
+			}
+			/**
+			 * pass the held pools to the item graph, so iterators in it know about them.  Context values can't be set for a subgraph, so
+			 * iterators inside subgraphs of the item graph don't see them
+			 */
+			const withHeldConcurrencyPools = (unitInputData: Inputs): Inputs => {
+				if (concurrencyPoolName === '') {
+					return unitInputData;
+				}
+				const graphInputs = unitInputData[callGraphConnectionIds.inputs] as ObjectDataValue;
+				return {
+					...unitInputData,
+					[callGraphConnectionIds.inputs]: {
+						type: 'object',
+						value: {
+							...graphInputs.value,
+							[heldConcurrencyPoolsGraphInputId]: {
+								type: 'string',
+								value: [...new Set([...heldConcurrencyPools, concurrencyPoolName])].join(','),
+							},
+						},
+					},
+				};
+			};
+
+			/**
+			 * setup the checkpoint of this run, the run key is the graphs digest and the input array digest
+			 */
+			const checkpointRunKey = data.enableCheckpoint
+				? await createCheckpointRunKey(
+						await createGraphDigest([...graphRoutes.values()].map((m) => m.graph)),
+						await createObjectDigest(
+							data.enableRouting
+								? { graphIds: itemRoutes.map((m) => m.graphRef.graphId), iteratorInputs }
+								: { graphId: itemRoutes[0]?.graphRef.graphId, iteratorInputs }
+						)
+					)
+				: undefined;
+			const checkpoint = checkpointRunKey != null ? getCheckpointStorage(checkpointRunKey) : undefined;
+			let resumedCount = 0;
 
-			const graphNodeImplList = iteratorInputs.map((m, i) => {
-				const node = rivet.callGraphNode.impl.create();
-				node.id = rivet.newId<NodeId>();
-				const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
-				return impl;
+			/**
+			 * Identical items of the same graph are coalesced before they are grouped into units, only the first one runs and
+			 * the duplicates reuse its outputs
+			 */
+			const leaderItemIndex = iteratorInputs.map((_, index) => index);
+			if (data.deduplicateItems) {
+				const itemIndexByDigest = new Map<string, number>();
+				for (const index of leaderItemIndex) {
+					const digest = await createObjectDigest({
+						graphId: itemRoutes[index].graphRef.graphId,
+						item: iteratorInputs[index],
+					});
+					leaderItemIndex[index] = itemIndexByDigest.get(digest) ?? index;
+					itemIndexByDigest.set(digest, leaderItemIndex[index]);
+				}
+			}
+			const deduplicatedCount = leaderItemIndex.filter((leader, index) => leader !== index).length;
+
+			/**
+			 * Items are processed in units: one unit per item, or one unit per batch of items of the same graph in batch mode
+			 */
+			const unitIndices: number[][] = [];
+			for (const route of graphRoutes.values()) {
+				const leaderIndices = route.indices.filter((index) => leaderItemIndex[index] === index);
+				for (let i = 0; i < leaderIndices.length; i += batchSize) {
+					unitIndices.push(leaderIndices.slice(i, i + batchSize));
+				}
+			}
+			unitIndices.sort((a, b) => a[0] - b[0]);
+			const units = unitIndices.map((indices, unitIndex) => {
+				const route = itemRoutes[indices[0]];
+				const iteratorInputData: Inputs = {
+					[callGraphConnectionIds.graph]: route.graphInput,
+					[callGraphConnectionIds.inputs]: getUnitInputs(indices),
+				};
+				return { unitIndex, indices, iteratorInputData, route };
 			});
 
-			const addToQueue = iteratorInputs.map((item: unknown, index) => {
-				return queue.add<Outputs>(async (): Promise<Outputs> => {
-					await sleep(1);
-					let itemOutput: Outputs = {};
-					itemOutput[callGraphConnectionIds.index] = {
-						type: 'number',
-						value: index,
-					};
-					try {
-						if (!abortIteration) {
-							// create a call graph node
-							const impl = graphNodeImplList[index];
-
-							// set the inputs
-							let itemDataValue: ObjectDataValue = {
-								type: 'object',
-								value: item as Record<string, unknown>,
-							};
-							/**
-							 * in case the item is already a DataValue, use it as is
-							 */
-							if (isObjectDataValue(rivet, item)) {
-								itemDataValue = item;
-							}
+			/**
+			 * a leader item runs at the highest priority of its duplicates, and a unit at the highest priority of its items
+			 */
+			const priorityKey = data.priorityKey?.trim() ?? '';
+			const getItemPriority = (index: number): number => {
+				const item = iteratorInputs[index];
+				const value = (isObjectDataValue(rivet, item) ? item.value : item)?.[priorityKey];
+				const priority =
+					typeof value === 'number' ? value : rivet.coerceTypeOptional(value as DataValue | undefined, 'number');
+				return priority != null && Number.isFinite(priority) ? priority : 0;
+			};
+			const itemPriority = iteratorInputs.map((_, index) => (priorityKey !== '' ? getItemPriority(index) : 0));
+			for (const [index, leader] of leaderItemIndex.entries()) {
+				itemPriority[leader] = Math.max(itemPriority[leader], itemPriority[index]);
+			}
+			const unitPriority = units.map((m) => Math.max(...m.indices.map((index) => itemPriority[index])));
 
-							const iteratorInputData: Inputs = {
-								[callGraphConnectionIds.graph]: inputData[iteratorConnectionIds.graph],
-								[callGraphConnectionIds.inputs]: itemDataValue,
-							};
-
-							if (enableCache) {
-								const cacheKey = await createObjectDigest(iteratorInputData);
-								const cachedValue = await getCachedItem<Outputs>(cacheStorage, cacheKey);
-
-								if (cachedValue != null) {
-									/**
-									 * return cached value
-									 * sleep to allow ux to refresh
-									 */
-									await sleep(10);
-									console.log(`Iterator ${index}: Using cached value`);
-									return cachedValue;
+			const processUnit = ({ unitIndex, indices, iteratorInputData, route }: (typeof units)[number]) => {
+				const { graphRef, cacheStorage } = route;
+				const label = enableBatchMode ? `batch ${unitIndex}` : `${unitIndex}`;
+				const unitItems = indices.map((index) => iteratorInputs[index]);
+
+				return queue.add<Outputs[]>(
+					async (): Promise<Outputs[]> => {
+						await sleep(1);
+						if (checkpoint != null && !abortIteration) {
+							const checkpointOutputs = indices.map((index) => getCheckpointItem(checkpoint, index));
+							if (checkpointOutputs.every((f) => f != null)) {
+								console.log(`Iterator ${label}: Resumed from checkpoint`);
+								resumedCount += indices.length;
+								for (const index of indices) {
+									itemTimings[index].resumed = true;
 								}
+								return checkpointOutputs as Outputs[];
 							}
-							itemOutput = await impl.process(iteratorInputData, context);
-							if (enableCache) {
-								const cacheKey = await createObjectDigest(iteratorInputData);
-								setCachedItem(cacheStorage, cacheKey, itemOutput);
-							}
-						} else {
-							/**
-							 * If aborted
-							 */
-							itemOutput[callGraphConnectionIds.outputs] = {
-								type: 'control-flow-excluded',
-								value: undefined,
-							};
-							itemOutput[callGraphConnectionIds.error] = {
-								type: 'string',
-								value: `Aborted ${graphRef.graphName}`,
-							};
 						}
-					} catch (err) {
-						itemOutput[callGraphConnectionIds.outputs] = {
-							type: 'control-flow-excluded',
-							value: undefined,
+						const unitStartTime = Date.now();
+						/**
+						 * the graph run time is measured per attempt, from after the rate limit and pool slot are acquired
+						 */
+						let graphStartTime: number | undefined;
+						let graphRunMs = 0;
+						let itemOutputs: Outputs[] = indices.map((index) => ({
+							[callGraphConnectionIds.index]: {
+								type: 'number',
+								value: index,
+							},
+						}));
+						const setItemErrors = (message: string, errorValue: string) => {
+							for (const [i, index] of indices.entries()) {
+								itemOutputs[i][callGraphConnectionIds.outputs] = {
+									type: 'control-flow-excluded',
+									value: undefined,
+								};
+								itemOutputs[i][callGraphConnectionIds.error] = {
+									type: 'string',
+									value: errorValue,
+								};
+								itemErrorMessages[index] = message;
+							}
 						};
 
-						itemOutput[callGraphConnectionIds.error] = {
-							type: 'string',
-							value: rivet.dedent`Error running graph ${graphRef.graphName}.  
+						try {
+							if (!abortIteration) {
+								// create a call graph node
+								const node = rivet.callGraphNode.impl.create();
+								node.id = rivet.newId<NodeId>();
+								const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
+
+								let unitOutput: Outputs | null = null;
+								let cacheHit = false;
+								const cacheKey = enableCache ? await createObjectDigest(iteratorInputData) : '';
+								if (enableCache) {
+									unitOutput = await getCachedItem<Outputs>(cacheStorage, cacheKey);
+
+									if (unitOutput != null) {
+										/**
+										 * use cached value
+										 * sleep to allow ux to refresh
+										 */
+										await sleep(10);
+										console.log(`Iterator ${label}: Using cached value`);
+										cacheHit = true;
+										for (const index of indices) {
+											itemTimings[index].cacheHit = true;
+										}
+									}
+								}
+
+								if (unitOutput == null) {
+									const result = await runWithRetry(
+										retryPolicy,
+										async (attempt) => {
+											if (attempt > 1) {
+												console.log(`Iterator ${label}: Retrying, attempt ${attempt} of ${retryPolicy.maxAttempts}`);
+											}
+											/**
+											 * wait for the rate limit before taking a pool slot, so a throttled item doesn't hold a slot other
+											 * nodes in the pool could use
+											 */
+											await rateLimiter?.acquire(iterationController.signal, unitPriority[unitIndex]);
+											const poolSlot =
+												poolLimiters.length > 0
+													? await acquireConcurrencySlot(
+															poolLimiters,
+															iterationController.signal,
+															unitPriority[unitIndex]
+														)
+													: undefined;
+											const startTime = Date.now();
+											graphStartTime ??= startTime;
+											try {
+												const output = await runWithChildSignal(iterationController.signal, itemTimeoutMs, (signal) =>
+													impl.process(withHeldConcurrencyPools(iteratorInputData), { ...context, signal })
+												);
+												concurrencyController?.recordSuccess(Date.now() - startTime);
+												return output;
+											} catch (err) {
+												concurrencyController?.recordFailure();
+												throw err;
+											} finally {
+												graphRunMs += Date.now() - startTime;
+												poolSlot?.release();
+											}
+										},
+										() => abortIteration,
+										iterationController.signal
+									);
+									for (const index of indices) {
+										itemAttempts[index] = result.attempts;
+									}
+									if (!result.ok) {
+										throw result.error;
+									}
+									unitOutput = result.value;
+								}
+
+								itemOutputs = enableBatchMode ? splitBatchOutput(unitOutput, indices) : [unitOutput];
+								/**
+								 * only cache outputs that split cleanly, so a malformed batch output isn't replayed from the cache
+								 */
+								if (enableCache && !cacheHit) {
+									setCachedItem(cacheStorage, cacheKey, unitOutput);
+								}
+								if (checkpointRunKey != null && checkpoint != null) {
+									for (const [i, index] of indices.entries()) {
+										if (itemOutputs[i][callGraphConnectionIds.outputs]?.type === 'object') {
+											setCheckpointItem(checkpointRunKey, checkpoint, index, itemOutputs[i]);
+										}
+									}
+								}
+							} else {
+								/**
+								 * If aborted
+								 */
+								setItemErrors(`Aborted ${graphRef.graphName}`, `Aborted ${graphRef.graphName}`);
+							}
+						} catch (err) {
+							setItemErrors(
+								rivet.getError(err).message,
+								rivet.dedent`Error running graph ${graphRef.graphName}.  
 							Message::: ${rivet.getError(err).message}
-							Input::: JSON ${JSON.stringify(item, null, 2)}
-							`,
-						};
-						abortIteration = true;
-					}
-					await sleep(1);
-					return itemOutput;
-				}) as Promise<Outputs>;
-			});
+							Attempts::: ${itemAttempts[indices[0]]}
+							Input::: JSON ${JSON.stringify(enableBatchMode ? unitItems : unitItems[0], null, 2)}
+							`
+							);
+							for (const index of indices) {
+								itemTimedOut[index] = isTimeoutError(err);
+							}
+							if (!continueOnError && !abortIteration) {
+								iterationController.abort(new Error(`Item ${label} failed`));
+							}
+						}
+						const unitWallTimeMs = Date.now() - unitStartTime;
+						for (const index of indices) {
+							if (itemTimings[index].cacheHit) {
+								itemTimings[index].startTime = unitStartTime;
+								itemTimings[index].durationMs = unitWallTimeMs;
+								itemTimings[index].queuedMs = 0;
+							} else if (graphStartTime != null) {
+								itemTimings[index].startTime = graphStartTime;
+								itemTimings[index].durationMs = graphRunMs;
+								itemTimings[index].queuedMs = unitWallTimeMs - graphRunMs;
+							}
+						}
+						await sleep(1);
+						return itemOutputs;
+					},
+					{ priority: unitPriority[unitIndex] }
+				) as Promise<Outputs[]>;
+			};
+
+			/**
+			 * hold the queue until every unit is added, otherwise the first units start before the higher priority ones are queued
+			 */
+			if (priorityKey !== '') {
+				queue.pause();
+			}
+			const addToQueue = units.map((unit) => processUnit(unit));
+
+			queue.start();
 
 			// wait for queue to finish
-			const iteratorOutputs = await Promise.all(addToQueue);
+			const unitOutputs = await Promise.all(addToQueue);
+			const iteratorOutputs: Outputs[] = [];
+			for (const [i, unit] of units.entries()) {
+				for (const [j, index] of unit.indices.entries()) {
+					iteratorOutputs[index] = unitOutputs[i][j];
+				}
+			}
+			for (const [index, leader] of leaderItemIndex.entries()) {
+				if (leader === index) {
+					continue;
+				}
+				itemErrorMessages[index] = itemErrorMessages[leader];
+				itemTimedOut[index] = itemTimedOut[leader];
+				itemTimings[index] = { ...itemTimings[leader], cacheHit: false, deduplicated: true, resumed: false };
+				iteratorOutputs[index] = {
+					...iteratorOutputs[leader],
+					[callGraphConnectionIds.index]: {
+						type: 'number',
+						value: index,
+					},
+				};
+			}
 			await queue.onEmpty();
+			disposeIterationController();
 			await sleep(1);
 
+			if (checkpointRunKey != null) {
+				const allItemsSucceeded = iteratorOutputs.every((f) => f[callGraphConnectionIds.outputs]?.type === 'object');
+				if (allItemsSucceeded) {
+					clearCheckpoint(checkpointRunKey);
+				} else {
+					flushCheckpoint(checkpointRunKey);
+				}
+				outputs[iteratorConnectionIds.resumedCount] = {
+					type: 'number',
+					value: resumedCount,
+				};
+			}
+
 			if (enableCache) {
 				void cleanExpiredCache();
 			}
 
+			outputs[iteratorConnectionIds.attempts] = {
+				type: 'number[]',
+				value: itemAttempts,
+			};
+			const getItemStatus = (itemOutput: Outputs, index: number): ItemStatus => {
+				if (itemOutput[callGraphConnectionIds.outputs]?.type === 'object') {
+					return 'succeeded';
+				}
+				if (itemTimedOut[index]) {
+					return 'timed-out';
+				}
+				return itemErrorMessages[index]?.startsWith('Aborted') ? 'aborted' : 'failed';
+			};
+			/**
+			 * reported indices are indices of the input array, in sample mode the items run at their position in the sample
+			 */
+			const getInputIndex = (index: number): number => sampledIndices?.[index] ?? index;
+			const itemMetrics: ItemMetrics[] = iteratorOutputs.map((itemOutput, index) => ({
+				index: getInputIndex(index),
+				...itemTimings[index],
+				attempts: itemAttempts[index],
+				status: getItemStatus(itemOutput, index),
+			}));
+			if (data.enableMetrics) {
+				const metrics = summarizeIteratorMetrics(itemMetrics, Date.now() - runStartTime);
+				outputs[iteratorConnectionIds.metrics] = {
+					type: 'object',
+					value: metrics,
+				};
+			}
+			if (sampledIndices != null) {
+				outputs[iteratorConnectionIds.sampleProjection] = {
+					type: 'object',
+					value: projectIteratorRun(itemMetrics, {
+						sampledIndices,
+						totalCount: totalItemCount,
+						sampleWallTimeMs: Date.now() - runStartTime,
+						itemsPerCall: batchSize,
+						concurrency: concurrencyController?.concurrency ?? chunkSize,
+						maxStartsPerInterval,
+						rateLimitIntervalMs,
+					}),
+				};
+			}
+			if (data.deduplicateItems) {
+				outputs[iteratorConnectionIds.deduplicatedCount] = {
+					type: 'number',
+					value: deduplicatedCount,
+				};
+			}
+			if (concurrencyController) {
+				outputs[iteratorConnectionIds.finalConcurrency] = {
+					type: 'number',
+					value: concurrencyController.concurrency,
+				};
+			}
+
+			/**
+			 * keep the failures in the dead-letter store, and remove the items that succeeded this time
+			 */
+			const deadLetterStoreName = data.deadLetterStore?.trim() ?? '';
+			if (deadLetterStoreName !== '') {
+				const failed = new Map<string, DeadLetterItem>();
+				const succeededKeys: string[] = [];
+				for (const [index, { status, attempts }] of itemMetrics.entries()) {
+					if (status === 'aborted') {
+						continue;
+					}
+					const key = await createObjectDigest({ input: iteratorInputs[index] });
+					if (status === 'succeeded') {
+						succeededKeys.push(key);
+					} else {
+						failed.set(key, {
+							input: iteratorInputs[index],
+							error:
+								itemErrorMessages[index] ?? `Graph ${itemRoutes[index].graphRef.graphName} did not return an object`,
+							timedOut: status === 'timed-out',
+							attempts,
+							graphId: itemRoutes[index].graphRef.graphId,
+							graphName: itemRoutes[index].graphRef.graphName,
+							failedAt: runStartTime,
+						});
+					}
+				}
+				updateDeadLetterStorage(deadLetterStoreName, { failed, succeededKeys });
+			}
+
+			if (continueOnError) {
+				const isSuccessfulItem = (f: Outputs) => f[callGraphConnectionIds.outputs]?.type === 'object';
+				const failedItems = iteratorOutputs
+					.map((itemOutput, index) => ({ itemOutput, index }))
+					.filter(({ itemOutput }) => !isSuccessfulItem(itemOutput))
+					.map(({ index }) => ({
+						index: getInputIndex(index),
+						input: iteratorInputs[index],
+						error: itemErrorMessages[index] ?? `Graph ${itemRoutes[index].graphRef.graphName} did not return an object`,
+						timedOut: itemTimedOut[index],
+					}));
+
+				outputs[iteratorConnectionIds.iteratorOutputs] = {
+					type: 'object[]',
+					value: data.preserveOrderOnError
+						? (iteratorOutputs.map((m) =>
+								isSuccessfulItem(m) ? m[callGraphConnectionIds.outputs] : null
+							) as ObjectDataValue[])
+						: (iteratorOutputs
+								.filter(isSuccessfulItem)
+								.map((m) => m[callGraphConnectionIds.outputs]) as ObjectDataValue[]),
+				};
+				outputs[iteratorConnectionIds.failedItems] = {
+					type: 'object[]',
+					value: failedItems,
+				};
+				return outputs;
+			}
+
 			const errorInIteratorOutputs = iteratorOutputs.some(
 				(f) =>
 					f[callGraphConnectionIds.outputs]?.type === 'control-flow-excluded' ||
@@ -412,10 +1740,11 @@ export function registerIteratorNode(rivet: typeof Rivet) {
 					(f[callGraphConnectionIds.error]?.value as string)?.includes?.('Aborted')
 				);
 				const itemErrors = iteratorOutputs
-					.filter((f) => f[callGraphConnectionIds.outputs]?.type === 'control-flow-excluded')
+					.map((itemOutput, index) => ({ itemOutput, index }))
+					.filter(({ itemOutput }) => itemOutput[callGraphConnectionIds.outputs]?.type === 'control-flow-excluded')
 					.map(
-						(m, i) => rivet.dedent`Item Index ${i}:: 
-					${m[callGraphConnectionIds.error]?.value}`
+						({ itemOutput, index }) => rivet.dedent`Item Index ${getInputIndex(index)}:: 
+					${itemOutput[callGraphConnectionIds.error]?.value}`
 					)
 					.join(';\n  ');
 
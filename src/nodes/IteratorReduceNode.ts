@@ -0,0 +1,315 @@
+import { isObjectDataValue } from '../helpers/dataValueHelpers.js';
+import { validateGraphInput } from './functions/validateGraphInputItem.js';
+import {
+	getCacheStorageForNamespace,
+	cleanExpiredCache,
+	getCachedItem,
+	setCachedItem,
+	createGraphDigest,
+	createObjectDigest,
+} from '../helpers/cacheStorage';
+import type {
+	PortId,
+	ChartNode,
+	Rivet,
+	PluginNodeImpl,
+	NodeId,
+	NodeConnection,
+	Project,
+	NodeInputDefinition,
+	NodeOutputDefinition,
+	NodeUIData,
+	EditorDefinition,
+	NodeBodySpec,
+	Inputs,
+	InternalProcessContext,
+	Outputs,
+	ObjectDataValue,
+} from '@ironclad/rivet-core';
+import { sleep } from '../helpers/sleep.js';
+
+const callGraphConnectionIds = {
+	graph: 'graph' as PortId,
+	inputs: 'inputs' as PortId,
+	outputs: 'outputs' as PortId,
+} as const;
+
+/**
+ * The reducer graph's input and output ids
+ */
+const reducerGraphIds = {
+	accumulator: 'accumulator',
+	item: 'item',
+	index: 'index',
+} as const;
+
+const iteratorReduceConnectionIds = {
+	iteratorInputs: 'iteratorInputs' as PortId,
+	initialAccumulator: 'initialAccumulator' as PortId,
+	graph: 'graph' as PortId,
+	accumulator: 'accumulator' as PortId,
+	intermediateAccumulators: 'intermediateAccumulators' as PortId,
+	error: 'error' as PortId,
+} as const;
+
+// This defines your new type of node.
+export type IteratorReduceNode = ChartNode<'iteratorReduceNode', IteratorReduceNodeData>;
+
+// This defines the data that your new node will store.
+export type IteratorReduceNodeData = {
+	enableCache: boolean;
+};
+
+// Make sure you export functions that take in the Rivet library, so that you do not
+// import the entire Rivet core library in your plugin.
+export function registerIteratorReduceNode(rivet: typeof Rivet) {
+	const reducerGraphHelperMessage = rivet.dedent`The reducer graph is called once per item, in order.  It must have the graph inputs \`accumulator\` (object), \`item\` and \`index\` (number), and a graph output \`accumulator\` (object).  The accumulator output of one call is the accumulator input of the next call.
+
+  Inputs must be an array of objects to fold.  Each item is passed to the \`item\` input as an ObjectDataValue \`{type: 'object', value: <item>}\`, or as is if it is already an ObjectDataValue.`;
+
+	const IteratorReduceNodeImpl: PluginNodeImpl<IteratorReduceNode> = {
+		create(): IteratorReduceNode {
+			const node: IteratorReduceNode = {
+				id: rivet.newId<NodeId>(),
+				data: {
+					enableCache: false,
+				} satisfies IteratorReduceNodeData,
+				title: 'Iterator Reduce Node',
+				type: 'iteratorReduceNode',
+				visualData: {
+					x: 0,
+					y: 0,
+					width: 200,
+				},
+			};
+			return node;
+		},
+
+		getInputDefinitions(
+			_data: IteratorReduceNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeInputDefinition[] {
+			const inputs: NodeInputDefinition[] = [];
+
+			inputs.push({
+				id: iteratorReduceConnectionIds.graph,
+				dataType: 'graph-reference',
+				title: 'Reducer Graph',
+				description: 'The reference to the reducer graph to call for each item.',
+				required: true,
+			});
+
+			inputs.push({
+				id: iteratorReduceConnectionIds.iteratorInputs,
+				dataType: 'object[]',
+				title: 'Iterator Inputs Array',
+				description: reducerGraphHelperMessage,
+				required: true,
+			});
+
+			inputs.push({
+				id: iteratorReduceConnectionIds.initialAccumulator,
+				dataType: 'object',
+				title: 'Initial Accumulator',
+				description: 'The accumulator passed to the reducer graph for the first item.',
+				required: true,
+			});
+
+			return inputs;
+		},
+
+		getOutputDefinitions(
+			_data: IteratorReduceNodeData,
+			_connections: NodeConnection[],
+			_nodes: Record<NodeId, ChartNode>,
+			_project: Project
+		): NodeOutputDefinition[] {
+			return [
+				{
+					id: iteratorReduceConnectionIds.accumulator,
+					dataType: 'object',
+					title: 'Accumulator',
+					description: 'The accumulator returned for the last item.',
+				},
+				{
+					id: iteratorReduceConnectionIds.intermediateAccumulators,
+					dataType: 'object[]',
+					title: 'Intermediate Accumulators',
+					description: 'The accumulator returned for each item, in input order.',
+				},
+			];
+		},
+
+		getUIData(): NodeUIData {
+			return {
+				contextMenuTitle: 'Iterator Reduce Node',
+				group: 'Logic',
+				infoBoxBody: rivet.dedent`This is an iterator reduce node.  This node will fold an array into an accumulator, by calling the reducer graph for each item in order.
+
+          ${reducerGraphHelperMessage}`,
+				infoBoxTitle: 'Iterator Reduce Node',
+			};
+		},
+
+		getEditors(_data: IteratorReduceNodeData): EditorDefinition<IteratorReduceNode>[] {
+			return [
+				{
+					type: 'toggle',
+					dataKey: 'enableCache',
+					label: 'Cache Execution',
+					helperMessage: rivet.dedent`If true, the node will cache the successful results of the previous reducer graph executions. It will use the cached results for the same accumulator and item inputs.`,
+				},
+			];
+		},
+
+		getBody(data: IteratorReduceNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
+			return rivet.dedent`Iterator Reduce Node
+				Enable Cache: ${data.enableCache}
+      `;
+		},
+
+		async process(data: IteratorReduceNodeData, inputData: Inputs, context: InternalProcessContext): Promise<Outputs> {
+			const outputs: Outputs = {};
+
+			const setError = (message: string) => {
+				outputs[iteratorReduceConnectionIds.accumulator] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[iteratorReduceConnectionIds.intermediateAccumulators] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[iteratorReduceConnectionIds.error] = {
+					type: 'string',
+					value: message,
+				};
+				return outputs;
+			};
+
+			// get the inputs
+			const graphRef = rivet.coerceType(inputData[iteratorReduceConnectionIds.graph], 'graph-reference');
+			const iteratorInputs = rivet.coerceType(inputData[iteratorReduceConnectionIds.iteratorInputs], 'object[]');
+			let accumulator = rivet.coerceType(inputData[iteratorReduceConnectionIds.initialAccumulator], 'object');
+
+			if (iteratorInputs.some((s) => typeof s !== 'object' || s == null)) {
+				return setError(
+					rivet.dedent`Input array must be an array of objects.  Each object is passed to the reducer graph's \`item\` input.`
+				);
+			}
+
+			/**
+			 * get the graph
+			 */
+			const graph = context.project.graphs[graphRef.graphId];
+			if (graph == null) {
+				return setError(`Graph reference is invalid for graph ${graphRef.graphName}`);
+			}
+			const graphRevalidationDigest = await createGraphDigest([graph]);
+			const cacheNamespace = graphRef.graphId as string;
+			const enableCache = data.enableCache && cacheNamespace != null;
+			const cacheStorage = getCacheStorageForNamespace(cacheNamespace, graphRevalidationDigest);
+
+			const toReducerInput = (item: unknown, index: number): Record<string, unknown> => ({
+				[reducerGraphIds.accumulator]: { type: 'object', value: accumulator } satisfies ObjectDataValue,
+				[reducerGraphIds.item]: isObjectDataValue(rivet, item)
+					? item
+					: ({ type: 'object', value: item as Record<string, unknown> } satisfies ObjectDataValue),
+				[reducerGraphIds.index]: { type: 'number', value: index },
+			});
+
+			// validate the reducer input against the graph's input ports, the shape is the same for every item
+			const missingKeys = new Set<string>();
+			const notDataValue = new Set<string>();
+			if (validateGraphInput(rivet, toReducerInput({}, 0), graph, missingKeys, notDataValue)) {
+				return setError(
+					`Input validation error: Missing inputs required for graph: ${Array.from(missingKeys).join('; ')}.  The reducer graph receives the inputs ${Object.values(reducerGraphIds).join(', ')}`
+				);
+			}
+
+			const node = rivet.callGraphNode.impl.create();
+			node.id = rivet.newId<NodeId>();
+			const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
+
+			const intermediateAccumulators: Record<string, unknown>[] = [];
+
+			for (let index = 0; index < iteratorInputs.length; index++) {
+				await sleep(1);
+				if (context.signal.aborted) {
+					return setError(`Aborted ${graphRef.graphName} at item ${index}`);
+				}
+
+				const item = iteratorInputs[index];
+				const reducerInputData: Inputs = {
+					[callGraphConnectionIds.graph]: inputData[iteratorReduceConnectionIds.graph],
+					[callGraphConnectionIds.inputs]: {
+						type: 'object',
+						value: toReducerInput(item, index),
+					},
+				};
+
+				try {
+					let graphOutput: Outputs | null = null;
+					let cacheHit = false;
+					const cacheKey = await createObjectDigest(reducerInputData);
+					if (enableCache) {
+						graphOutput = await getCachedItem<Outputs>(cacheStorage, cacheKey);
+						if (graphOutput != null) {
+							await sleep(10);
+							console.log(`Iterator Reduce ${index}: Using cached value`);
+							cacheHit = true;
+						}
+					}
+
+					if (graphOutput == null) {
+						graphOutput = await impl.process(reducerInputData, context);
+					}
+
+					const reducerOutputs = rivet.coerceType(graphOutput[callGraphConnectionIds.outputs], 'object');
+					if (reducerOutputs?.[reducerGraphIds.accumulator] == null) {
+						return setError(
+							`Reducer graph ${graphRef.graphName} did not return an \`${reducerGraphIds.accumulator}\` output for item ${index}`
+						);
+					}
+					accumulator = rivet.coerceType(reducerOutputs[reducerGraphIds.accumulator] as ObjectDataValue, 'object');
+					intermediateAccumulators.push(accumulator);
+					/**
+					 * only cache outputs that passed the check, so a bad output isn't replayed from the cache
+					 */
+					if (enableCache && !cacheHit) {
+						setCachedItem(cacheStorage, cacheKey, graphOutput);
+					}
+				} catch (err) {
+					return setError(rivet.dedent`Error running graph ${graphRef.graphName}.
+						Item Index::: ${index}
+						Message::: ${rivet.getError(err).message}
+						Input::: JSON ${JSON.stringify(item, null, 2)}
+						`);
+				}
+			}
+
+			if (enableCache) {
+				void cleanExpiredCache();
+			}
+
+			outputs[iteratorReduceConnectionIds.accumulator] = {
+				type: 'object',
+				value: accumulator,
+			};
+			outputs[iteratorReduceConnectionIds.intermediateAccumulators] = {
+				type: 'object[]',
+				value: intermediateAccumulators,
+			};
+			return outputs;
+		},
+	};
+
+	// Once a node is defined, you must pass it to rivet.pluginNodeDefinition, which will return a valid
+	// PluginNodeDefinition object.
+	const iteratorReduceNode = rivet.pluginNodeDefinition(IteratorReduceNodeImpl, 'Iterator Reduce Node');
+
+	// This definition should then be used in the `register` function of your plugin definition.
+	return iteratorReduceNode;
+}
@@ -26,15 +26,12 @@ export type {
 
 import { createDigest } from '../helpers/createDigest.js';
 import { isObjectDataValue } from '../helpers/dataValueHelpers.js';
-import { validateGraphInput } from './functions/validateGraphInputItem.js';
-import {
-	getCacheStorageForNamespace,
-	cleanExpiredCache,
-	getCachedItem,
-	setCachedItem,
-	createGraphDigest,
-	createObjectDigest,
-} from '../helpers/cacheStorage';
+import { processPipelineStage } from './functions/pipelineStage.js';
+import { getConnectedGraph } from './functions/graphInputPorts.js';
+import { resolveFallbackGraphs, resolveStageGraphs } from './functions/graphRouting.js';
+import { checkStageContract, type StageContractMismatch } from './functions/stageContracts.js';
+import { applyStageKeyMapping, parseStageKeyMappings, type StageKeyMappings } from './functions/stageKeyMapping.js';
+import { cleanExpiredCache, createObjectDigest } from '../helpers/cacheStorage';
 import {
 	PortId,
 	ChartNode,
@@ -58,18 +55,12 @@ import {
 	GraphId,
 } from '@ironclad/rivet-core';
 import { sleep } from '../helpers/sleep.js';
-import { stringify } from 'superjson';
-
-const callGraphConnectionIds = {
-	graph: 'graph' as PortId,
-	inputs: 'inputs' as PortId,
-	outputs: 'outputs' as PortId,
-	error: 'error' as PortId,
-	stageIndex: 'stageIndex' as PortId,
-} as const;
+import type { RetryPolicy } from '../helpers/retryPolicy.js';
+import { getPipelineRunSnapshot, updatePipelineRunSnapshot } from '../helpers/pipelineRunStorage.js';
 
 const pipelineGraphIdPrefix = 'graph-';
 const postPipelineGraphIdPrefix = 'post-';
+const fallbackGraphIdPrefix = 'fallback-';
 const pipelineConnectionIds = {
 	pipelineInput: 'pipelineInput' as PortId,
 	pipelineOutput: 'pipelineOutput' as PortId,
@@ -81,12 +72,29 @@ const pipelineConnectionIds = {
 	getGraphId: (id: number | string) => `${pipelineGraphIdPrefix}${id.toString()}` as PortId,
 	postPrefix: postPipelineGraphIdPrefix as PortId,
 	getPostId: (id: number | string) => `${postPipelineGraphIdPrefix}${id.toString()}` as PortId,
+	fallbackPrefix: fallbackGraphIdPrefix as PortId,
+	getFallbackId: (id: number | string) => `${fallbackGraphIdPrefix}${id.toString()}` as PortId,
 	prePipelineGraph: 'prePipelineGraph' as PortId,
 	error: 'error' as PortId,
 	enableCache: 'enableCache' as PortId,
 	numberOfPipelineLoops: 'numberOfPipelineLoops' as PortId,
+	stages: 'stages' as PortId,
+	fallbacks: 'fallbacks' as PortId,
+	runKey: 'runKey' as PortId,
 } as const;
 
+/**
+ * The reserved stage output key a stage can return to control the pipeline loop
+ */
+const pipelineControlKey = 'pipelineControl';
+const pipelineControlValues = ['break', 'continue', 'skip-rest'] as const;
+type PipelineControl = (typeof pipelineControlValues)[number];
+
+/**
+ * The pipeline output key of the post pipeline outputs, when they are merged into an array
+ */
+const postPipelineOutputsKey = 'postPipelineOutputs';
+
 // This defines your new type of node.
 export type PipelineNode = ChartNode<'pipelineNode', PipelineNodeData>;
 
@@ -95,6 +103,54 @@ export type PipelineNodeData = {
 	enableCache: boolean;
 	numberOfPipelineLoops: number;
 	useNumberOfPipelineLoopsToggle: boolean;
+	/**
+	 * Takes the stage graphs from the `stages` input instead of the stage graph ports, e.g. the stages a planner graph picked
+	 */
+	useStagesInput?: boolean;
+	/**
+	 * Stop looping once a loop's output is the same as the previous loop's output
+	 */
+	stopWhenUnchanged?: boolean;
+	/**
+	 * sequential: each post pipeline graph gets the prior one's output.  parallel: all get the pipeline output at the same time
+	 */
+	postPipelineMode?: 'sequential' | 'parallel';
+	/**
+	 * How the parallel post pipeline outputs are merged into the pipeline output
+	 */
+	postMergeStrategy?: 'namespaced' | 'merge' | 'array';
+	/**
+	 * Retry policy for each stage graph
+	 */
+	maxAttempts?: number;
+	/**
+	 * Per stage overrides of maxAttempts, e.g. `2: 3`
+	 */
+	stageMaxAttempts?: string[];
+	retryBaseDelayMs?: number;
+	retryBackoffMultiplier?: number;
+	retryJitter?: number;
+	retryableErrors?: string[];
+	/**
+	 * Adds a fallback graph port for each stage, or a `fallbacks` input parallel to the stages input, whose graph runs if
+	 * the stage graph still fails after its retries
+	 */
+	enableFallbackGraphs?: boolean;
+	/**
+	 * Key mapping rules applied to the input of a stage, e.g. `1: summary -> document`
+	 */
+	stageKeyMappings?: string[];
+	/**
+	 * The stage inputs and logs of each run are recorded under the run key, so a run can be resumed from a stage
+	 */
+	runKey?: string;
+	useRunKeyToggle?: boolean;
+	/**
+	 * Resume from the recorded input of a loop stage, skipping the pre pipeline graph and the stages before it
+	 */
+	resumeFromStage?: boolean;
+	resumeLoopIndex?: number;
+	resumeStageIndex?: number;
 };
 
 // Make sure you export functions that take in the Rivet library, so that you do not
@@ -104,6 +160,13 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 
   Pipeline Ouput will be an ObjectDataValue \`type: 'object', value: {<graph output id>: <output value>}\``;
 
+	/**
+	 * The stage contract mismatches of each node, computed in getInputDefinitions where the node's own connections are
+	 * known.  getBody only gets the data, so it finds the node id by the data object both are called with
+	 */
+	const stageContractMismatchesByNodeId = new Map<NodeId, StageContractMismatch[]>();
+	const nodeIdByData = new WeakMap<PipelineNodeData, NodeId>();
+
 	/**************
 	 * Plugin Code
 	 */
@@ -120,6 +183,23 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 					enableCache: false,
 					numberOfPipelineLoops: 1,
 					useNumberOfPipelineLoopsToggle: false,
+					useStagesInput: false,
+					stopWhenUnchanged: false,
+					postPipelineMode: 'sequential',
+					postMergeStrategy: 'namespaced',
+					maxAttempts: 1,
+					stageMaxAttempts: [],
+					retryBaseDelayMs: 1000,
+					retryBackoffMultiplier: 2,
+					retryJitter: 0.2,
+					retryableErrors: [],
+					enableFallbackGraphs: false,
+					stageKeyMappings: [],
+					runKey: '',
+					useRunKeyToggle: false,
+					resumeFromStage: false,
+					resumeLoopIndex: 0,
+					resumeStageIndex: 0,
 				} satisfies PipelineNodeData,
 
 				// This is the default title of your node.
@@ -144,7 +224,7 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 			data: PipelineNodeData,
 			connections: NodeConnection[],
 			nodes: Record<NodeId, ChartNode>,
-			_project: Project
+			project: Project
 		): NodeInputDefinition[] {
 			const inputs: NodeInputDefinition[] = [];
 
@@ -176,8 +256,32 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				required: false,
 			});
 
-			const graphInputCount = getPipelineGraphInputPortCount(connections, pipelineConnectionIds.graphPrefix);
-			for (let i = 0; i <= graphInputCount; i++) {
+			if (data.useRunKeyToggle) {
+				inputs.push({
+					id: pipelineConnectionIds.runKey,
+					dataType: 'string',
+					title: 'Run Key',
+					description:
+						'The stage inputs and logs of the run are recorded under the run key, so it can be resumed from a stage.',
+					data: data.runKey,
+				});
+			}
+
+			if (data.useStagesInput) {
+				inputs.push({
+					id: pipelineConnectionIds.stages,
+					dataType: 'any[]',
+					title: 'Stages',
+					description:
+						'The stage graphs to run, in order.  Each entry is a graph reference, or the name or id of a graph in the project.',
+					required: true,
+				});
+			}
+
+			const graphInputCount = data.useStagesInput
+				? 0
+				: getPipelineGraphInputPortCount(connections, pipelineConnectionIds.graphPrefix);
+			for (let i = 0; i <= graphInputCount && !data.useStagesInput; i++) {
 				inputs.push({
 					id: pipelineConnectionIds.getGraphId(i),
 					dataType: 'graph-reference',
@@ -187,6 +291,27 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				});
 			}
 
+			if (data.enableFallbackGraphs && data.useStagesInput) {
+				inputs.push({
+					id: pipelineConnectionIds.fallbacks,
+					dataType: 'any[]',
+					title: 'Fallbacks',
+					description:
+						'The fallback graph of each stage, in the same order as the stages input.  Each entry is a graph reference, the name or id of a graph in the project, or null for no fallback.',
+					required: false,
+				});
+			} else if (data.enableFallbackGraphs) {
+				for (let i = 0; i < graphInputCount; i++) {
+					inputs.push({
+						id: pipelineConnectionIds.getFallbackId(i),
+						dataType: 'graph-reference',
+						title: `Stage ${i} Fallback Graph`,
+						description: `The reference to the graph to call if stage ${i} still fails after its retries.  It gets the same input as the stage graph.`,
+						required: false,
+					});
+				}
+			}
+
 			const postGraphInputCount = getPipelineGraphInputPortCount(connections, pipelineConnectionIds.postPrefix);
 			for (let i = 0; i <= postGraphInputCount; i++) {
 				inputs.push({
@@ -199,6 +324,24 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				});
 			}
 
+			const nodeId = getOwnNodeId(connections, nodes);
+			if (nodeId != null) {
+				const parsedKeyMappings = parseStageKeyMappings(rivet, data.stageKeyMappings ?? []);
+				stageContractMismatchesByNodeId.set(
+					nodeId,
+					getStageContractMismatches(
+						data,
+						connections.filter((f) => f.inputNodeId === nodeId),
+						nodes,
+						project,
+						'mappings' in parsedKeyMappings ? parsedKeyMappings.mappings : new Map()
+					)
+				);
+				nodeIdByData.set(data, nodeId);
+			} else {
+				nodeIdByData.delete(data);
+			}
+
 			return inputs;
 		},
 
@@ -244,6 +387,154 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 						'Number of times to loop the pipeline. The output of the pipeline will be the input of the next run.',
 					useInputToggleDataKey: 'useNumberOfPipelineLoopsToggle',
 				},
+				{
+					type: 'toggle',
+					dataKey: 'useStagesInput',
+					label: 'Use stages input',
+					helperMessage:
+						'If true, the stage graphs come from the `stages` input instead of the stage graph ports, so a planner graph can pick the stages and their order at runtime.  Each entry is a graph reference, or the name or id of a graph in the project.',
+				},
+				{
+					type: 'toggle',
+					dataKey: 'stopWhenUnchanged',
+					label: 'Stop when output unchanged',
+					helperMessage: rivet.dedent`If true, the loops stop early once a loop's output is the same as its input, e.g. when a refinement loop has converged.  A stage can also return a \`pipelineControl\` output: \`continue\` skips the rest of the loop's stages, \`break\` stops looping and runs the post-pipeline graphs, and \`skip-rest\` also skips the post-pipeline graphs.`,
+				},
+				{
+					type: 'dropdown',
+					dataKey: 'postPipelineMode',
+					label: 'Post-pipeline mode',
+					options: [
+						{ value: 'sequential', label: 'Sequential' },
+						{ value: 'parallel', label: 'Parallel' },
+					],
+					defaultValue: 'sequential',
+					helperMessage:
+						'Sequential: each post-pipeline graph gets the output of the prior one.  Parallel: all post-pipeline graphs run at the same time on the pipeline output, e.g. formatting, saving and notifying, and their outputs are merged.',
+				},
+				{
+					type: 'dropdown',
+					dataKey: 'postMergeStrategy',
+					label: 'Post-pipeline merge',
+					options: [
+						{ value: 'namespaced', label: 'Namespaced by graph name' },
+						{ value: 'merge', label: 'Shallow merge' },
+						{ value: 'array', label: 'Array' },
+					],
+					defaultValue: 'namespaced',
+					helperMessage: rivet.dedent`Namespaced: each output is under its graph name.  Shallow merge: the output keys are merged, later post-pipeline graphs win.  Array: the outputs are in \`${postPipelineOutputsKey}\`, in port order.`,
+					hideIf: (data) => data.postPipelineMode !== 'parallel',
+				},
+				{
+					type: 'stringList',
+					dataKey: 'stageKeyMappings',
+					label: 'Key mappings',
+					placeholder: 'e.g. 1: summary -> document',
+					helperMessage: rivet.dedent`Maps the input of a stage, so stages don't need adapter graphs.  One rule per entry as \`<stage>: <rule>\`, where the stage is \`pre\`, the stage index or \`post-<index>\`.  Rules apply in order: \`summary -> document\` renames, \`-extra\` drops, \`topic <- pipelineInput.subject\` passes a pipeline input key through, and \`tone = "formal"\` injects a constant (parsed as JSON, otherwise a string).`,
+				},
+				{
+					type: 'group',
+					label: 'Stage Retry',
+					editors: [
+						{
+							type: 'number',
+							dataKey: 'maxAttempts',
+							label: 'Max attempts',
+							defaultValue: 1,
+							min: 1,
+							max: 10,
+							helperMessage:
+								'The number of times each stage graph is attempted before the stage counts as failed.  1 disables retries.',
+						},
+						{
+							type: 'stringList',
+							dataKey: 'stageMaxAttempts',
+							label: 'Stage max attempts',
+							placeholder: 'e.g. 2: 3',
+							helperMessage:
+								'Overrides the max attempts of a stage, as `<stage index>: <max attempts>`, e.g. `2: 3` retries stage 2 up to 3 attempts.',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryBaseDelayMs',
+							label: 'Base delay (ms)',
+							defaultValue: 1000,
+							min: 0,
+							helperMessage: 'The delay before the first retry.  Following retries are delayed exponentially.',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryBackoffMultiplier',
+							label: 'Backoff multiplier',
+							defaultValue: 2,
+							min: 1,
+							step: 0.5,
+							helperMessage: 'Each retry delay is the previous delay multiplied by this number.',
+						},
+						{
+							type: 'number',
+							dataKey: 'retryJitter',
+							label: 'Jitter',
+							defaultValue: 0.2,
+							min: 0,
+							max: 1,
+							step: 0.1,
+							helperMessage: 'Fraction of the delay that is randomised.',
+						},
+						{
+							type: 'stringList',
+							dataKey: 'retryableErrors',
+							label: 'Retryable errors',
+							placeholder: 'e.g. 429',
+							helperMessage:
+								'Only errors whose message contains one of these values are retried (case insensitive).  Leave empty to retry every error.',
+						},
+						{
+							type: 'toggle',
+							dataKey: 'enableFallbackGraphs',
+							label: 'Fallback graphs',
+							helperMessage:
+								'If true, each stage gets a fallback graph port, or with the stages input a `fallbacks` input in the same order as the stages.  The fallback graph runs with the same input if the stage graph still fails after its retries.',
+						},
+					],
+				},
+				{
+					type: 'group',
+					label: 'Resume',
+					editors: [
+						{
+							type: 'string',
+							dataKey: 'runKey',
+							label: 'Run key',
+							helperMessage:
+								'Optional.  The input of each loop stage and the stage logs are recorded under the run key, and kept for 7 days.',
+							useInputToggleDataKey: 'useRunKeyToggle',
+						},
+						{
+							type: 'toggle',
+							dataKey: 'resumeFromStage',
+							label: 'Start from stage',
+							helperMessage:
+								'If true, the pipeline starts from the recorded input of the loop and stage below, e.g. after fixing the graph of a stage that failed.  The pre-pipeline graph and the stages before it are skipped.',
+						},
+						{
+							type: 'number',
+							dataKey: 'resumeLoopIndex',
+							label: 'Start loop',
+							defaultValue: 0,
+							min: 0,
+							hideIf: (data) => !data.resumeFromStage,
+						},
+						{
+							type: 'number',
+							dataKey: 'resumeStageIndex',
+							label: 'Start stage',
+							defaultValue: 0,
+							min: 0,
+							hideIf: (data) => !data.resumeFromStage,
+						},
+					],
+				},
 				{
 					type: 'toggle',
 					dataKey: 'enableCache',
@@ -256,9 +547,37 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 		// This function returns the body of the node when it is rendered on the graph. You should show
 		// what the current data of the node is in some way that is useful at a glance.
 		getBody(data: PipelineNodeData): string | NodeBodySpec | NodeBodySpec[] | undefined {
+			const parsedKeyMappings = parseStageKeyMappings(rivet, data.stageKeyMappings ?? []);
+			const nodeId = nodeIdByData.get(data);
+			const contractMismatches = (nodeId != null ? stageContractMismatchesByNodeId.get(nodeId) : undefined) ?? [];
+			const contractWarnings = contractMismatches.map(
+				(m) =>
+					`${m.boundary}: ${[
+						m.missing.length > 0 ? `missing ${m.missing.map((k) => `\`${k}\``).join(', ')}` : undefined,
+						m.unused.length > 0 ? `unused ${m.unused.map((k) => `\`${k}\``).join(', ')}` : undefined,
+						m.mismatchedTypes.length > 0 ? `type ${m.mismatchedTypes.join(', ')}` : undefined,
+					]
+						.filter((f) => f != null)
+						.join('; ')}`
+			);
 			return rivet.dedent`Pipeline Node
 				Enable Cache: ${data.enableCache}
 				Number of Loops:  ${data.useNumberOfPipelineLoopsToggle ? '(using input)' : data.numberOfPipelineLoops}
+				Stages: ${data.useStagesInput ? '(using input)' : 'graph ports'}
+				Stop When Unchanged: ${data.stopWhenUnchanged ?? false}
+				Post-pipeline: ${
+					data.postPipelineMode === 'parallel' ? `parallel (${data.postMergeStrategy ?? 'namespaced'})` : 'sequential'
+				}
+				Stage Max Attempts: ${data.maxAttempts ?? 1}${
+					(data.stageMaxAttempts ?? []).length > 0 ? ` (${(data.stageMaxAttempts ?? []).join(', ')})` : ''
+				}
+				Fallback Graphs: ${data.enableFallbackGraphs ?? false}
+				Key Mappings: ${'error' in parsedKeyMappings ? parsedKeyMappings.error : (data.stageKeyMappings ?? []).length}
+				Run Key: ${data.useRunKeyToggle ? '(using input)' : data.runKey || '(not set)'}${
+					data.resumeFromStage
+						? ` (start from loop-${data.resumeLoopIndex ?? 0} stage-${data.resumeStageIndex ?? 0})`
+						: ''
+				}${contractWarnings.length > 0 ? `\nStage contract warnings:\n${contractWarnings.join('\n')}` : ''}
       `;
 		},
 
@@ -283,6 +602,105 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 			 */
 			const enableCache = data.enableCache;
 
+			/**
+			 * The key mapping rules of each stage
+			 */
+			const parsedKeyMappings = parseStageKeyMappings(rivet, data.stageKeyMappings ?? []);
+			if ('error' in parsedKeyMappings) {
+				outputs[pipelineConnectionIds.pipelineOutput] = {
+					type: 'control-flow-excluded',
+					value: undefined,
+				};
+				outputs[pipelineConnectionIds.error] = {
+					type: 'string',
+					value: parsedKeyMappings.error,
+				};
+				return outputs;
+			}
+			const mapStageInput = (mappingKey: string, stageInput: Record<string, unknown>) => {
+				const rules = parsedKeyMappings.mappings.get(mappingKey) ?? [];
+				return {
+					stageInput: applyStageKeyMapping(rivet, stageInput, rules),
+					keyMapping: rules.map((m) => m.text),
+				};
+			};
+
+			/**
+			 * The stage graphs come from the stages input when it is used, otherwise from the connected stage graph ports
+			 */
+			let stageGraphRefs: { graphId: string; graphName: string }[];
+			let fallbackGraphRefs: (GraphReferenceValue['value'] | undefined)[] = [];
+			if (data.useStagesInput) {
+				const resolvedStages = resolveStageGraphs(rivet, context.project, inputData[pipelineConnectionIds.stages]);
+				if ('error' in resolvedStages) {
+					outputs[pipelineConnectionIds.pipelineOutput] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[pipelineConnectionIds.error] = {
+						type: 'string',
+						value: resolvedStages.error,
+					};
+					return outputs;
+				}
+				stageGraphRefs = resolvedStages.graphRefs;
+
+				if (data.enableFallbackGraphs) {
+					const resolvedFallbacks = resolveFallbackGraphs(
+						rivet,
+						context.project,
+						inputData[pipelineConnectionIds.fallbacks]
+					);
+					if ('error' in resolvedFallbacks) {
+						outputs[pipelineConnectionIds.pipelineOutput] = {
+							type: 'control-flow-excluded',
+							value: undefined,
+						};
+						outputs[pipelineConnectionIds.error] = {
+							type: 'string',
+							value: resolvedFallbacks.error,
+						};
+						return outputs;
+					}
+					if (resolvedFallbacks.graphRefs.length > stageGraphRefs.length) {
+						outputs[pipelineConnectionIds.pipelineOutput] = {
+							type: 'control-flow-excluded',
+							value: undefined,
+						};
+						outputs[pipelineConnectionIds.error] = {
+							type: 'string',
+							value: `The fallbacks input has ${resolvedFallbacks.graphRefs.length} entries, but there are only ${stageGraphRefs.length} stages`,
+						};
+						return outputs;
+					}
+					fallbackGraphRefs = resolvedFallbacks.graphRefs;
+				}
+			} else {
+				const stageGraphCount = Object.keys(inputData).filter((key) =>
+					key.startsWith(pipelineConnectionIds.graphPrefix)
+				).length;
+				stageGraphRefs = Array.from({ length: stageGraphCount }, (_, i) =>
+					rivet.coerceType(inputData[pipelineConnectionIds.getGraphId(i)], 'graph-reference')
+				);
+				if (data.enableFallbackGraphs) {
+					fallbackGraphRefs = stageGraphRefs.map((_, i) =>
+						rivet.coerceTypeOptional(inputData[pipelineConnectionIds.getFallbackId(i)], 'graph-reference')
+					);
+				}
+			}
+
+			/**
+			 * The retry policy of each stage graph
+			 */
+			const stageMaxAttempts = parseStageMaxAttempts(data.stageMaxAttempts ?? []);
+			const getStageRetryPolicy = (stageIndex: number): RetryPolicy => ({
+				maxAttempts: Math.min(Math.max(stageMaxAttempts.get(stageIndex) ?? data.maxAttempts ?? 1, 1), 10),
+				baseDelayMs: Math.max(data.retryBaseDelayMs ?? 1000, 0),
+				backoffMultiplier: data.retryBackoffMultiplier ?? 2,
+				jitter: Math.min(Math.max(data.retryJitter ?? 0.2, 0), 1),
+				retryableErrors: data.retryableErrors ?? [],
+			});
+
 			/**
 			 * The next stage input is the prior stage output
 			 */
@@ -290,12 +708,54 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				pipelineInput: inputData[pipelineConnectionIds.pipelineInput],
 			};
 			const intermediateStageLogsOut: Record<string, unknown>[] = [];
+			/**
+			 * The input of each loop stage, recorded under the run key so the run can be resumed from a stage
+			 */
+			const runKey = (
+				rivet.coerceTypeOptional(inputData[pipelineConnectionIds.runKey], 'string') ||
+				data.runKey ||
+				''
+			).trim();
+			const stageInputsOut: Record<string, Record<string, unknown>> = {};
+			const saveRunSnapshot = () => {
+				if (runKey !== '') {
+					updatePipelineRunSnapshot(runKey, { stageInputs: stageInputsOut, stageLogs: intermediateStageLogsOut });
+				}
+			};
+
+			const resumeLoopIndex = Math.max(Math.floor(data.resumeLoopIndex ?? 0), 0);
+			const resumeStageIndex = Math.max(Math.floor(data.resumeStageIndex ?? 0), 0);
+			if (data.resumeFromStage) {
+				const resumeIdentifier = `loop-${resumeLoopIndex} stage-${resumeStageIndex}`;
+				const recordedInput = runKey === '' ? undefined : getPipelineRunSnapshot(runKey)?.stageInputs[resumeIdentifier];
+				if (recordedInput == null) {
+					outputs[pipelineConnectionIds.pipelineOutput] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[pipelineConnectionIds.error] = {
+						type: 'string',
+						value:
+							runKey === ''
+								? 'A run key is required to start from a stage'
+								: `There is no recorded input for ${resumeIdentifier} in run \`${runKey}\`.  Run the pipeline with the run key first.`,
+					};
+					return outputs;
+				}
+				console.log(`Pipeline Node: Starting from ${resumeIdentifier} of run ${runKey}`);
+				nextStageInput = { ...recordedInput, pipelineInput: inputData[pipelineConnectionIds.pipelineInput] };
+			}
+			/**
+			 * A stage's `pipelineControl` output can skip the remaining loops, and the post pipeline graphs
+			 */
+			let skipLoops = false;
+			let skipPostPipeline = false;
 
 			await sleep(1);
 			/** ****************
 			 * Pre Pipeline Graph
 			 */
-			if (inputData[pipelineConnectionIds.prePipelineGraph]) {
+			if (inputData[pipelineConnectionIds.prePipelineGraph] && !data.resumeFromStage) {
 				const prePipelineGraphRef = rivet.coerceType(
 					inputData[pipelineConnectionIds.prePipelineGraph],
 					'graph-reference'
@@ -310,7 +770,7 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 							enableCache,
 						},
 						{
-							stageInput: nextStageInput,
+							...mapStageInput('pre', nextStageInput),
 							stageGraph: context.project.graphs[prePipelineGraphRef.graphId],
 							stageGraphRef: prePipelineGraphRef,
 							stageIdentifier: 'stage-pre',
@@ -326,7 +786,10 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				}
 
 				const stageOutput = outputs[pipelineConnectionIds.pipelineOutput]?.value as Record<string, unknown>;
-				nextStageInput = { ...stageOutput };
+				const stageControl = getPipelineControl(stageOutput);
+				skipLoops = stageControl === 'break' || stageControl === 'skip-rest';
+				skipPostPipeline = stageControl === 'skip-rest';
+				nextStageInput = withoutPipelineControl(stageOutput);
 				nextStageInput.pipelineInput = inputData[pipelineConnectionIds.pipelineInput];
 			}
 
@@ -337,45 +800,63 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				 */
 
 				/**
-				 * Get number of graphs with connections
+				 * Get number of stage graphs
 				 */
-				const pipelineGraphCount = Object.keys(inputData).filter((key) =>
-					key.startsWith(pipelineConnectionIds.graphPrefix)
-				).length;
+				const pipelineGraphCount = stageGraphRefs.length;
 				/**
-				 * get all graphs form inputData with connections
+				 * get all stage graphs, an invalid graph reference fails when its stage runs
 				 */
-				const graphs: NodeGraph[] = Array.from({ length: pipelineGraphCount }, (_, i) => {
-					const graphRef = rivet.coerceType(inputData[pipelineConnectionIds.getGraphId(i)], 'graph-reference');
-					if (graphRef.graphId && graphRef.graphName) {
-						return context.project.graphs[graphRef.graphId];
-					}
-				}).filter((f) => f != null) as NodeGraph[];
+				const graphs = stageGraphRefs.map((m) =>
+					m.graphId && m.graphName ? context.project.graphs[m.graphId as GraphId] : undefined
+				) as NodeGraph[];
 
 				const numberOfPipelineLoops =
 					Math.min(
 						Math.max(
-							rivet.coerceType(inputData[pipelineConnectionIds.numberOfPipelineLoops], 'number') ??
+							rivet.coerceTypeOptional(inputData[pipelineConnectionIds.numberOfPipelineLoops], 'number') ??
 								data.numberOfPipelineLoops,
 							1
 						),
 						100
 					) ?? 1;
 
-				for (let loopIndex = 0; loopIndex < numberOfPipelineLoops; loopIndex++) {
+				/**
+				 * the digest of the loop input, to stop when a loop doesn't change it
+				 */
+				let previousLoopDigest = data.stopWhenUnchanged ? await createObjectDigest(nextStageInput) : undefined;
+
+				if (
+					data.resumeFromStage &&
+					(resumeLoopIndex >= numberOfPipelineLoops || resumeStageIndex >= pipelineGraphCount)
+				) {
+					outputs[pipelineConnectionIds.pipelineOutput] = {
+						type: 'control-flow-excluded',
+						value: undefined,
+					};
+					outputs[pipelineConnectionIds.error] = {
+						type: 'string',
+						value: `Can't start from loop-${resumeLoopIndex} stage-${resumeStageIndex}, the pipeline has ${numberOfPipelineLoops} loops of ${pipelineGraphCount} stages`,
+					};
+					return outputs;
+				}
+
+				const startLoopIndex = data.resumeFromStage ? resumeLoopIndex : 0;
+				for (let loopIndex = startLoopIndex; loopIndex < numberOfPipelineLoops && !skipLoops; loopIndex++) {
 					await sleep(1);
-					for (let pipelineIndex = 0; pipelineIndex < pipelineGraphCount; pipelineIndex++) {
+					const startStageIndex = data.resumeFromStage && loopIndex === resumeLoopIndex ? resumeStageIndex : 0;
+					for (let pipelineIndex = startStageIndex; pipelineIndex < pipelineGraphCount; pipelineIndex++) {
 						await sleep(1);
 						const graph = graphs[pipelineIndex];
-						const graphRef = rivet.coerceType(
-							inputData[pipelineConnectionIds.getGraphId(pipelineIndex)],
-							'graph-reference'
-						);
+						const graphRef = stageGraphRefs[pipelineIndex];
+						const stageIdentifier = `loop-${loopIndex} stage-${pipelineIndex}`;
+						const stageRetryPolicy = getStageRetryPolicy(pipelineIndex);
 
 						nextStageInput.pipelineStageIndex = pipelineIndex;
 						nextStageInput.pipelineLoopIndex = loopIndex;
 						nextStageInput.pipelineGraphCount = pipelineGraphCount;
 						nextStageInput.pipelineIndex = loopIndex * pipelineGraphCount + pipelineIndex;
+						stageInputsOut[stageIdentifier] = { ...nextStageInput };
+						const mappedStageInput = mapStageInput(`${pipelineIndex}`, nextStageInput);
 
 						outputs = await processPipelineStage(
 							rivet,
@@ -385,14 +866,49 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 								enableCache,
 							},
 							{
-								stageInput: nextStageInput,
+								...mappedStageInput,
 								stageGraph: graph,
 								stageGraphRef: graphRef,
-								stageIdentifier: `loop-${loopIndex} stage-${pipelineIndex}`,
+								stageIdentifier,
+								retryPolicy: stageRetryPolicy,
+								stagePath: 'primary',
 							},
 							intermediateStageLogsOut
 						);
 
+						/**
+						 * if the stage graph still fails after its retries, run the fallback graph with the same input
+						 */
+						const fallbackGraphRef = fallbackGraphRefs[pipelineIndex];
+						if (
+							fallbackGraphRef?.graphId &&
+							fallbackGraphRef.graphName &&
+							outputs[pipelineConnectionIds.error] &&
+							!context.signal.aborted
+						) {
+							console.log(
+								`Pipeline Node ${stageIdentifier}: Stage graph failed, running fallback graph ${fallbackGraphRef.graphName}`
+							);
+							outputs = await processPipelineStage(
+								rivet,
+								{
+									context,
+									nodeInputData: inputData,
+									enableCache,
+								},
+								{
+									...mappedStageInput,
+									stageGraph: context.project.graphs[fallbackGraphRef.graphId],
+									stageGraphRef: fallbackGraphRef,
+									stageIdentifier,
+									retryPolicy: stageRetryPolicy,
+									stagePath: 'fallback',
+								},
+								intermediateStageLogsOut
+							);
+						}
+
+						saveRunSnapshot();
 						if (
 							outputs[pipelineConnectionIds.error] ||
 							outputs[pipelineConnectionIds.pipelineOutput]?.type === 'control-flow-excluded'
@@ -401,8 +917,32 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 						}
 
 						const stageOutput = outputs[pipelineConnectionIds.pipelineOutput]?.value as Record<string, unknown>;
-						nextStageInput = { ...stageOutput };
+						const stageControl = getPipelineControl(stageOutput);
+						nextStageInput = withoutPipelineControl(stageOutput);
 						nextStageInput.pipelineInput = inputData[pipelineConnectionIds.pipelineInput];
+
+						if (stageControl != null) {
+							console.log(
+								`Pipeline Node loop-${loopIndex} stage-${pipelineIndex}: ${pipelineControlKey} ${stageControl}`
+							);
+						}
+						if (stageControl === 'break' || stageControl === 'skip-rest') {
+							skipLoops = true;
+							skipPostPipeline = stageControl === 'skip-rest';
+							break;
+						}
+						if (stageControl === 'continue') {
+							break;
+						}
+					}
+
+					if (previousLoopDigest != null && !skipLoops) {
+						const loopDigest = await createObjectDigest(nextStageInput);
+						if (loopDigest === previousLoopDigest) {
+							console.log(`Pipeline Node loop-${loopIndex}: Output unchanged, stopping the loops`);
+							break;
+						}
+						previousLoopDigest = loopDigest;
 					}
 				}
 
@@ -426,7 +966,55 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 				}
 			}).filter((f) => f != null) as NodeGraph[];
 
-			if (postGraphs.length > 0) {
+			if (postGraphs.length > 0 && !skipPostPipeline && data.postPipelineMode === 'parallel') {
+				/**
+				 * all post pipeline graphs run at the same time on the pipeline output, and their outputs are merged
+				 */
+				const postPipelineGraphRefs = Array.from({ length: postGraphCount }, (_, pipelineIndex) => ({
+					pipelineIndex,
+					postPipelineGraphRef: rivet.coerceType(
+						inputData[pipelineConnectionIds.getPostId(pipelineIndex)],
+						'graph-reference'
+					),
+				})).filter((f) => f.postPipelineGraphRef.graphId && f.postPipelineGraphRef.graphName);
+
+				const postOutputs = await Promise.all(
+					postPipelineGraphRefs.map(({ pipelineIndex, postPipelineGraphRef }) =>
+						processPipelineStage(
+							rivet,
+							{
+								context,
+								nodeInputData: inputData,
+								enableCache,
+							},
+							{
+								...mapStageInput(`post-${pipelineIndex}`, nextStageInput),
+								stageGraph: context.project.graphs[postPipelineGraphRef.graphId],
+								stageGraphRef: postPipelineGraphRef,
+								stageIdentifier: `stage-post-${pipelineIndex}`,
+							},
+							intermediateStageLogsOut
+						)
+					)
+				);
+
+				const failedOutputs = postOutputs.find(
+					(f) =>
+						f[pipelineConnectionIds.error] || f[pipelineConnectionIds.pipelineOutput]?.type === 'control-flow-excluded'
+				);
+				if (failedOutputs) {
+					return failedOutputs;
+				}
+
+				nextStageInput = mergePostPipelineOutputs(
+					postOutputs.map((m, i) => ({
+						graphName: postPipelineGraphRefs[i].postPipelineGraphRef.graphName,
+						output: withoutPipelineControl(m[pipelineConnectionIds.pipelineOutput]?.value as Record<string, unknown>),
+					})),
+					data.postMergeStrategy ?? 'namespaced'
+				);
+				nextStageInput.pipelineInput = { ...inputData[pipelineConnectionIds.pipelineInput] };
+			} else if (postGraphs.length > 0 && !skipPostPipeline) {
 				for (let pipelineIndex = 0; pipelineIndex < postGraphCount; pipelineIndex++) {
 					const postPipelineGraphRef = rivet.coerceType(
 						inputData[pipelineConnectionIds.getPostId(pipelineIndex)],
@@ -442,10 +1030,10 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 								enableCache,
 							},
 							{
-								stageInput: nextStageInput,
+								...mapStageInput(`post-${pipelineIndex}`, nextStageInput),
 								stageGraph: context.project.graphs[postPipelineGraphRef.graphId],
 								stageGraphRef: postPipelineGraphRef,
-								stageIdentifier: 'stage-post',
+								stageIdentifier: `stage-post-${pipelineIndex}`,
 							},
 							intermediateStageLogsOut
 						);
@@ -459,8 +1047,12 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 					}
 
 					const stageOutput = outputs[pipelineConnectionIds.pipelineOutput]?.value as Record<string, unknown>;
-					nextStageInput = { ...stageOutput };
+					const stageControl = getPipelineControl(stageOutput);
+					nextStageInput = withoutPipelineControl(stageOutput);
 					nextStageInput.pipelineInput = { ...inputData[pipelineConnectionIds.pipelineInput] };
+					if (stageControl === 'break' || stageControl === 'skip-rest') {
+						break;
+					}
 				}
 			}
 
@@ -469,6 +1061,7 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 			if (enableCache) {
 				void cleanExpiredCache();
 			}
+			saveRunSnapshot();
 
 			outputs[pipelineConnectionIds.pipelineOutput] = {
 				type: 'object',
@@ -489,191 +1082,185 @@ export function registerPipelineNode(rivet: typeof Rivet) {
 		return inputConnections.length;
 	};
 
-	const processPipelineStage = async (
-		rivet: typeof Rivet,
-		nodeInputs: {
-			context: InternalProcessContext;
-			nodeInputData: Inputs;
-			enableCache: boolean;
-		},
-		stage: {
-			stageInput: Record<string, unknown>;
-			stageGraph: NodeGraph;
-			stageGraphRef: {
-				graphId: string;
-				graphName: string;
-			};
-			stageIdentifier: string;
-		},
-		intermediateStageLogsOut: Record<string, unknown>[]
-	): Promise<Outputs> => {
-		const outputs: Outputs = {};
-		const { stageInput, stageGraphRef, stageIdentifier, stageGraph } = stage;
-		const { context, nodeInputData, enableCache } = nodeInputs;
-
-		if (!stageGraphRef.graphId || !stageGraphRef.graphName || stageGraph == null) {
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'control-flow-excluded',
-				value: undefined,
-			};
-			outputs[pipelineConnectionIds.error] = {
-				type: 'string',
-				value: `Graph reference is invalid for graph ${stageIdentifier}`,
-			};
-			return outputs;
-		}
-
-		if (typeof stageInput !== 'object' || stageInput == null || Array.isArray(stageInput)) {
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'control-flow-excluded',
-				value: undefined,
-			};
-			outputs[pipelineConnectionIds.error] = {
-				type: 'string',
-				value: rivet.dedent`Input must be an object.  Each stage's input should match the prior stage's output shape.  Error: ${stageIdentifier}`,
-			};
-			return outputs;
-		}
+	/**
+	 * Gets the id of the pipeline node from its own connections, the node is at one end of each of them.  Undefined if the
+	 * node has no connections, or they are all between the same two pipeline nodes
+	 */
+	const getOwnNodeId = (connections: NodeConnection[], nodes: Record<NodeId, ChartNode>): NodeId | undefined => {
+		const nodeIds = [...new Set(connections.flatMap((m) => [m.inputNodeId, m.outputNodeId]))].filter(
+			(f) => nodes[f]?.type === 'pipelineNode' && connections.every((s) => s.inputNodeId === f || s.outputNodeId === f)
+		);
+		return nodeIds.length === 1 ? nodeIds[0] : undefined;
+	};
 
-		// validate input items to make sure they have all  keys of the  graph's input ports
-		const missingKeys = new Set<string>();
-		const notDataValue = new Set<string>();
-		const invalidInputs = validateGraphInput(rivet, stageInput, stageGraph, missingKeys, notDataValue);
+	/**
+	 * Checks the graph outputs of each connected stage graph against the graph inputs of the stage it feeds.  This only
+	 * works at design time, for stage graphs selected on a Graph Reference node.
+	 * @param connections - The connections to the node's inputs.
+	 */
+	const getStageContractMismatches = (
+		data: PipelineNodeData,
+		connections: NodeConnection[],
+		nodes: Record<NodeId, ChartNode>,
+		project: Project,
+		keyMappings: StageKeyMappings
+	): StageContractMismatch[] => {
+		const getStageGraph = (portId: PortId) =>
+			connections.some((s) => s.inputId === portId)
+				? { connected: true, graph: getConnectedGraph(connections, nodes, project, portId) }
+				: { connected: false, graph: undefined };
 
-		if (invalidInputs) {
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'control-flow-excluded',
-				value: undefined,
-			};
-			let errorMessage = `Input validation error for ${stageIdentifier}: `;
-			if (missingKeys.size > 0) {
-				errorMessage += `Missing inputs required for graph: ${Array.from(missingKeys)
-					.map((key) => key)
-					.join('; ')}`;
+		/**
+		 * the keys the pipeline adds to the stage inputs.  `pipelineControl` is removed from the stage outputs.
+		 */
+		const loopStageKeys = [
+			'pipelineInput',
+			'pipelineStageIndex',
+			'pipelineLoopIndex',
+			'pipelineGraphCount',
+			'pipelineIndex',
+			pipelineControlKey,
+		];
+		const stageKeys = ['pipelineInput', pipelineControlKey];
+
+		const mismatches: StageContractMismatch[] = [];
+		/**
+		 * the stage that produces the next stage's input, undefined when it is only the pipeline input
+		 */
+		type Producer = { label: string; mappingKey: string; connected: boolean; graph: NodeGraph | undefined };
+		const check = (producer: Producer, consumer: Producer, providedKeys: string[], checkUnused = true) => {
+			// graphs that can't be resolved at design time are skipped
+			if (consumer.graph == null || (producer.connected && producer.graph == null)) {
+				return;
 			}
-			if (notDataValue.size > 0) {
-				errorMessage += rivet.dedent`Invalid Inputs, make sure each input item is a ObjectDataValue::
-				${Array.from(notDataValue)
-					.map((value) => stringify(value))
-					.join('; ')}`;
+			const mismatch = checkStageContract(
+				rivet,
+				`${producer.label} → ${consumer.label}`,
+				producer.graph,
+				consumer.graph,
+				providedKeys,
+				keyMappings.get(consumer.mappingKey)
+			);
+			if (mismatch && !checkUnused) {
+				mismatch.unused = [];
 			}
-			outputs[pipelineConnectionIds.error] = {
-				type: 'string',
-				value: errorMessage,
-			};
-			return outputs;
-		}
+			if (
+				mismatch &&
+				(mismatch.missing.length > 0 || mismatch.unused.length > 0 || mismatch.mismatchedTypes.length > 0)
+			) {
+				mismatches.push(mismatch);
+			}
+		};
 
-		const aborted = context.signal.aborted;
+		let producer: Producer = { label: 'Pipeline Input', mappingKey: '', connected: false, graph: undefined };
+		const pre = { label: 'Pre', mappingKey: 'pre', ...getStageGraph(pipelineConnectionIds.prePipelineGraph) };
+		if (pre.connected) {
+			check(producer, pre, stageKeys);
+			producer = pre;
+		}
 
-		/**
-		 * Execute the graph
-		 */
-		try {
-			if (!aborted) {
-				console.log(`Pipeline Node ${stageIdentifier}: Running graph ${stageGraphRef.graphName}`);
-				// create a call graph node
-				const node = rivet.callGraphNode.impl.create();
-				const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
-
-				// set the inputs
-				let stageGraphInputDataValue: ObjectDataValue = {
-					type: 'object',
-					value: stageInput as Record<string, unknown>,
-				};
-				/**
-				 * in case the item is already a DataValue, use it as is
-				 */
-				if (isObjectDataValue(rivet, stageInput)) {
-					stageGraphInputDataValue = stageInput;
-				}
+		const stages = Array.from(
+			{
+				length: data.useStagesInput
+					? 0
+					: getPipelineGraphInputPortCount(connections, pipelineConnectionIds.graphPrefix),
+			},
+			(_, i) => ({
+				label: `Stage ${i}`,
+				mappingKey: `${i}`,
+				...getStageGraph(pipelineConnectionIds.getGraphId(i)),
+			})
+		);
+		for (const stage of stages) {
+			check(producer, stage, loopStageKeys);
+			producer = stage;
+		}
+		if (data.useStagesInput) {
+			// the stages are only known at runtime
+			producer = { label: 'Stages', mappingKey: '', connected: true, graph: undefined };
+		}
+		const isLooping = data.useNumberOfPipelineLoopsToggle || data.numberOfPipelineLoops > 1;
+		if (isLooping && stages.length > 0) {
+			check({ ...producer, label: `${producer.label} (next loop)` }, stages[0], loopStageKeys);
+		}
 
-				const graphDataValue: GraphReferenceValue = {
-					type: 'graph-reference',
-					value: {
-						graphId: stageGraphRef.graphId as GraphId,
-						graphName: stageGraphRef.graphName,
-					},
-				};
-				const stageGraphInputs: Inputs = {
-					[callGraphConnectionIds.graph]: graphDataValue,
-					[callGraphConnectionIds.inputs]: stageGraphInputDataValue,
-				};
+		const posts = Array.from(
+			{ length: getPipelineGraphInputPortCount(connections, pipelineConnectionIds.postPrefix) },
+			(_, i) => ({
+				label: `Post ${i}`,
+				mappingKey: `post-${i}`,
+				...getStageGraph(pipelineConnectionIds.getPostId(i)),
+			})
+		);
+		for (const post of posts) {
+			if (data.postPipelineMode === 'parallel') {
+				// parallel post pipeline graphs each use part of the same output
+				check(producer, post, stageKeys, false);
+			} else {
+				check(producer, post, stageKeys);
+				producer = post;
+			}
+		}
 
-				/**
-				 * Setup cache storage for the graph
-				 */
-				const graphRevalidationDigest = await createGraphDigest([stageGraph]);
-				const cacheNamespace = stageGraphRef.graphId as string;
-				const cacheStorage = getCacheStorageForNamespace(cacheNamespace, graphRevalidationDigest);
-				const cacheKey = await createObjectDigest(stageInput);
-
-				let graphOutput: Outputs | null = null;
-				if (enableCache) {
-					const cachedValue = await getCachedItem<Outputs>(cacheStorage, cacheKey);
-
-					if (cachedValue != null) {
-						await sleep(10);
-						graphOutput = cachedValue;
-					}
-				}
+		return mismatches;
+	};
 
-				if (graphOutput == null) {
-					graphOutput = await impl.process(stageGraphInputs, context);
+	/**
+	 * Parses the per stage max attempts overrides, e.g. `2: 3`, into max attempts by stage index
+	 */
+	const parseStageMaxAttempts = (entries: string[]): Map<number, number> => {
+		const stageMaxAttempts = new Map<number, number>();
+		for (const entry of entries) {
+			const [stage, attempts] = entry.split(':').map((m) => Number(m.trim()));
+			if (Number.isInteger(stage) && stage >= 0 && Number.isFinite(attempts)) {
+				stageMaxAttempts.set(stage, attempts);
+			}
+		}
+		return stageMaxAttempts;
+	};
 
-					if (enableCache) {
-						/**
-						 * Set the item in the cache
-						 */
-						setCachedItem(cacheStorage, cacheKey, graphOutput);
-					}
-				}
+	/**
+	 * Gets the `pipelineControl` a stage returned, if any
+	 */
+	const getPipelineControl = (stageOutput: Record<string, unknown>): PipelineControl | undefined => {
+		const control = stageOutput?.[pipelineControlKey] as DataValue | undefined;
+		const value = control == null ? undefined : rivet.coerceTypeOptional(control, 'string');
+		return pipelineControlValues.find((f) => f === value);
+	};
 
-				const nextStageInput = rivet.coerceType(graphOutput[callGraphConnectionIds.outputs], 'object');
-				intermediateStageLogsOut.push({
-					identifier: stageIdentifier,
-					graphName: stageGraphRef.graphName,
-					graphOutput: nextStageInput,
-					graphInput: stageInput,
-				});
+	/**
+	 * The stage output without the reserved `pipelineControl` key, so it isn't passed on to the next stage
+	 */
+	const withoutPipelineControl = (stageOutput: Record<string, unknown>): Record<string, unknown> => {
+		const { [pipelineControlKey]: _control, ...rest } = stageOutput;
+		return rest;
+	};
 
-				outputs[pipelineConnectionIds.pipelineOutput] = {
-					type: 'object',
-					value: nextStageInput,
-				};
-				outputs[pipelineConnectionIds.intermediateStageOutputs] = {
+	/**
+	 * Merges the outputs of the parallel post pipeline graphs into one pipeline output
+	 */
+	const mergePostPipelineOutputs = (
+		postOutputs: { graphName: string; output: Record<string, unknown> }[],
+		strategy: NonNullable<PipelineNodeData['postMergeStrategy']>
+	): Record<string, unknown> => {
+		if (strategy === 'merge') {
+			return Object.assign({}, ...postOutputs.map((m) => m.output));
+		}
+		if (strategy === 'array') {
+			return {
+				[postPipelineOutputsKey]: {
 					type: 'object[]',
-					value: intermediateStageLogsOut,
-				};
-				return outputs;
-			}
-			/**
-			 * If aborted then
-			 */
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'control-flow-excluded',
-				value: undefined,
-			};
-			outputs[pipelineConnectionIds.error] = {
-				type: 'string',
-				value: `Aborted ${stageGraphRef.graphName}`,
-			};
-			return outputs;
-		} catch (err) {
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'control-flow-excluded',
-				value: undefined,
-			};
-
-			outputs[pipelineConnectionIds.pipelineOutput] = {
-				type: 'string',
-				value: rivet.dedent`Error running graph ${stageGraphRef.graphName}.
-				Message::: ${rivet.getError(err).message}
-				Input::: JSON ${JSON.stringify(stageInput, null, 2)}
-				`,
+					value: postOutputs.map((m) => m.output),
+				},
 			};
-			return outputs;
 		}
+		const namespaced: Record<string, unknown> = {};
+		for (const [i, { graphName, output }] of postOutputs.entries()) {
+			// graphs with the same name get the post pipeline index as suffix
+			const key = graphName in namespaced ? `${graphName}-${i}` : graphName;
+			namespaced[key] = { type: 'object', value: output };
+		}
+		return namespaced;
 	};
 
 	// Once a node is defined, you must pass it to rivet.pluginNodeDefinition, which will return a valid
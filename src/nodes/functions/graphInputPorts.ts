@@ -0,0 +1,144 @@
+import type {
+	ChartNode,
+	DataType,
+	DataValue,
+	NodeConnection,
+	NodeGraph,
+	NodeId,
+	PortId,
+	Project,
+	Rivet,
+	ScalarDataValue,
+} from '@ironclad/rivet-core';
+import { isObjectDataValue } from '../../helpers/dataValueHelpers';
+
+export type GraphPort = {
+	id: string;
+	dataType: DataType;
+	/**
+	 * Graph inputs with a default value are optional
+	 */
+	hasDefaultValue?: boolean;
+};
+
+/**
+ * Gets the graph referenced by the Graph Reference node connected to the input port.  This only works at design time
+ * when the graph is selected on a Graph Reference node, a graph reference coming from elsewhere can't be resolved.
+ * @param connections - The connections of the node.
+ * @param nodes - All nodes of the graph.
+ * @param project - The project.
+ * @param portId - The graph reference input port.
+ * @returns The graph, or undefined if it can't be resolved.
+ */
+export const getConnectedGraph = (
+	connections: NodeConnection[],
+	nodes: Record<NodeId, ChartNode>,
+	project: Project,
+	portId: PortId
+): NodeGraph | undefined => {
+	for (const connection of connections.filter((f) => f.inputId === portId)) {
+		const node = nodes[connection.outputNodeId];
+		if (node?.type === 'graphReference') {
+			const graphId = (node.data as Record<string, unknown>)?.graphId as string | undefined;
+			const graph = graphId ? project.graphs[graphId as keyof Project['graphs']] : undefined;
+			if (graph) {
+				return graph;
+			}
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Gets the ids and data types of the graph's input nodes
+ */
+export const getGraphInputPorts = (graph: NodeGraph): GraphPort[] => {
+	return graph.nodes
+		.filter((f) => f.type === 'graphInput')
+		.map((m) => {
+			const data = m.data as Record<string, unknown>;
+			return {
+				id: data?.id as string,
+				dataType: (data?.dataType as DataType) ?? 'any',
+				hasDefaultValue:
+					data?.useDefaultValueInput === true || (data?.defaultValue != null && data.defaultValue !== ''),
+			};
+		})
+		.filter((f) => f.id != null && f.id !== '');
+};
+
+/**
+ * Gets the ids and data types of the graph's output nodes
+ */
+export const getGraphOutputPorts = (graph: NodeGraph): GraphPort[] => {
+	return graph.nodes
+		.filter((f) => f.type === 'graphOutput')
+		.map((m) => {
+			const data = m.data as Record<string, unknown>;
+			return { id: data?.id as string, dataType: (data?.dataType as DataType) ?? 'any' };
+		})
+		.filter((f) => f.id != null && f.id !== '');
+};
+
+/**
+ * Zips the graph input ports into iterator items.  Broadcast ports are passed to every item as is, the other ports
+ * must be arrays that are zipped by index, along with the iterator inputs array if it is connected.
+ * @param rivet - The Rivet object.
+ * @param portInputs - The values of the graph input ports, keyed by graph input id.
+ * @param broadcastInputs - The graph input ids that are broadcast.
+ * @param iteratorInputs - The iterator inputs array, if it is connected.
+ * @returns The items, or an error if the array lengths don't match.
+ */
+export const zipGraphInputPorts = (
+	rivet: typeof Rivet,
+	portInputs: Record<string, DataValue>,
+	broadcastInputs: string[],
+	iteratorInputs: unknown[] | undefined
+): { items: Record<string, unknown>[] } | { error: string } => {
+	const broadcastValues: Record<string, DataValue> = {};
+	const iterateValues: Record<string, ScalarDataValue[]> = {};
+
+	for (const [id, value] of Object.entries(portInputs)) {
+		if (broadcastInputs.includes(id)) {
+			broadcastValues[id] = value;
+		} else {
+			iterateValues[id] = rivet.arrayizeDataValue(rivet.unwrapDataValue(value));
+		}
+	}
+
+	const lengths: Record<string, number> = {};
+	if (iteratorInputs != null) {
+		lengths.iteratorInputs = iteratorInputs.length;
+	}
+	for (const [id, values] of Object.entries(iterateValues)) {
+		lengths[id] = values.length;
+	}
+
+	const distinctLengths = new Set(Object.values(lengths));
+	if (distinctLengths.size === 0) {
+		return {
+			error:
+				'At least one graph input port must iterate, or the iterator inputs array must be connected.  All graph input ports are broadcast.',
+		};
+	}
+	if (distinctLengths.size > 1) {
+		return {
+			error: `Mismatched array lengths, all iterated arrays must have the same length: ${Object.entries(lengths)
+				.map(([id, length]) => `${id}: ${length}`)
+				.join('; ')}`,
+		};
+	}
+
+	const [length] = distinctLengths;
+	const items = Array.from({ length }, (_, index) => {
+		const iteratorItem = iteratorInputs?.[index];
+		const item: Record<string, unknown> = isObjectDataValue(rivet, iteratorItem)
+			? { ...iteratorItem.value }
+			: { ...(iteratorItem as Record<string, unknown> | undefined) };
+		for (const [id, values] of Object.entries(iterateValues)) {
+			item[id] = values[index];
+		}
+		return { ...item, ...broadcastValues };
+	});
+	return { items };
+};
@@ -0,0 +1,157 @@
+import type { DataValue, GraphReferenceValue, Project, Rivet } from '@ironclad/rivet-core';
+import { isObjectDataValue } from '../../helpers/dataValueHelpers';
+
+/**
+ * Resolves the graph each item runs.  The item's route key holds either a graph reference, or a route that is the
+ * number of a connected route port or the name of its graph.  Items without a route run the default graph.
+ * @param rivet - The Rivet object.
+ * @param items - The iterator items.
+ * @param routeKey - The item key holding the route.
+ * @param routeGraphs - The graph references connected to the route ports, by port number.
+ * @param defaultGraph - The graph reference connected to the graph port, if any.
+ * @returns The graph reference of each item, or an error if a route can't be resolved.
+ */
+export const resolveItemGraphRoutes = (
+	rivet: typeof Rivet,
+	items: Record<string, unknown>[],
+	routeKey: string,
+	routeGraphs: (GraphReferenceValue | undefined)[],
+	defaultGraph: GraphReferenceValue | undefined
+): { itemGraphs: GraphReferenceValue[] } | { error: string } => {
+	const itemGraphs: GraphReferenceValue[] = [];
+
+	for (const [index, item] of items.entries()) {
+		const route = (isObjectDataValue(rivet, item) ? item.value : item)?.[routeKey] as DataValue | unknown;
+		const routeValue =
+			route != null && typeof route === 'object' && 'type' in route ? (route as DataValue).value : route;
+
+		if (route != null && typeof route === 'object' && 'type' in route && route.type === 'graph-reference') {
+			itemGraphs.push(route as GraphReferenceValue);
+			continue;
+		}
+		if (routeValue == null || routeValue === '') {
+			if (defaultGraph == null) {
+				return { error: `Item ${index} has no \`${routeKey}\` route and the default graph is not connected` };
+			}
+			itemGraphs.push(defaultGraph);
+			continue;
+		}
+
+		const routeName = String(routeValue);
+		const routeGraph =
+			(/^\d+$/.test(routeName) ? routeGraphs[Number(routeName)] : undefined) ??
+			routeGraphs.find((f) => f != null && (f.value.graphName === routeName || f.value.graphId === routeName));
+		if (routeGraph == null) {
+			return {
+				error: `Item ${index} has the unknown route \`${routeName}\`.  Routes are the number of a connected route port, or the name of its graph: ${routeGraphs
+					.map((m, i) => (m == null ? null : `${i} (${m.value.graphName})`))
+					.filter((f) => f != null)
+					.join('; ')}`,
+			};
+		}
+		itemGraphs.push(routeGraph);
+	}
+
+	return { itemGraphs };
+};
+
+/**
+ * Resolves one entry of a graph list: a graph reference, or the name or id of a graph in the project.
+ */
+const resolveGraphEntry = (project: Project, entry: DataValue): GraphReferenceValue['value'] | undefined => {
+	if (entry.type === 'graph-reference') {
+		return entry.value;
+	}
+
+	const entryValue = entry.value as unknown;
+	// graph references in an `any[]` array are wrapped in an object
+	if (entryValue != null && typeof entryValue === 'object' && (entryValue as DataValue).type === 'graph-reference') {
+		return (entryValue as GraphReferenceValue).value;
+	}
+	const name =
+		entryValue != null && typeof entryValue === 'object'
+			? ((entryValue as Record<string, unknown>).graphId ?? (entryValue as Record<string, unknown>).graphName)
+			: entryValue;
+	const graph = Object.values(project.graphs).find((f) => f.metadata?.id === name || f.metadata?.name === name);
+	if (graph?.metadata?.id == null) {
+		return undefined;
+	}
+	return { graphId: graph.metadata.id, graphName: graph.metadata.name ?? '' };
+};
+
+/**
+ * Describes an entry that can't be resolved, for the error message
+ */
+const describeGraphEntry = (entry: DataValue): string => {
+	const entryValue = entry.value as unknown;
+	const name =
+		entryValue != null && typeof entryValue === 'object'
+			? ((entryValue as Record<string, unknown>).graphId ?? (entryValue as Record<string, unknown>).graphName)
+			: entryValue;
+	return typeof name === 'string' ? name : JSON.stringify(entryValue);
+};
+
+/**
+ * Resolves the stage graphs picked at runtime, e.g. by a planner graph.
+ * @param rivet - The Rivet object.
+ * @param project - The project, to look up graphs by name or id.
+ * @param value - An array whose entries are graph references, or the name or id of a graph in the project.
+ * @returns The graph references in order, or an error if an entry can't be resolved.
+ */
+export const resolveStageGraphs = (
+	rivet: typeof Rivet,
+	project: Project,
+	value: DataValue | undefined
+): { graphRefs: GraphReferenceValue['value'][] } | { error: string } => {
+	if (value == null) {
+		return { error: 'The stages input is not connected' };
+	}
+
+	const graphRefs: GraphReferenceValue['value'][] = [];
+	for (const [index, entry] of rivet.arrayizeDataValue(rivet.unwrapDataValue(value)).entries()) {
+		const graphRef = resolveGraphEntry(project, entry);
+		if (graphRef == null) {
+			return {
+				error: `Stage ${index} \`${describeGraphEntry(entry)}\` is not a graph reference, or the name or id of a graph in the project`,
+			};
+		}
+		graphRefs.push(graphRef);
+	}
+
+	return { graphRefs };
+};
+
+/**
+ * Resolves the fallback graphs of the stages picked at runtime.  The list is parallel to the stages list, an empty entry
+ * (null or an empty string) means the stage has no fallback graph.
+ * @param rivet - The Rivet object.
+ * @param project - The project, to look up graphs by name or id.
+ * @param value - An array whose entries are graph references, the name or id of a graph in the project, or empty.
+ * @returns The fallback graph reference of each stage, or an error if an entry can't be resolved.
+ */
+export const resolveFallbackGraphs = (
+	rivet: typeof Rivet,
+	project: Project,
+	value: DataValue | undefined
+): { graphRefs: (GraphReferenceValue['value'] | undefined)[] } | { error: string } => {
+	if (value == null) {
+		return { graphRefs: [] };
+	}
+
+	const graphRefs: (GraphReferenceValue['value'] | undefined)[] = [];
+	for (const [index, entry] of rivet.arrayizeDataValue(rivet.unwrapDataValue(value)).entries()) {
+		if (entry.value == null || entry.value === '') {
+			graphRefs.push(undefined);
+			continue;
+		}
+		const graphRef = resolveGraphEntry(project, entry);
+		if (graphRef == null) {
+			return {
+				error: `Fallback ${index} \`${describeGraphEntry(entry)}\` is not a graph reference, or the name or id of a graph in the project`,
+			};
+		}
+		graphRefs.push(graphRef);
+	}
+
+	return { graphRefs };
+};
@@ -0,0 +1,285 @@
+import type {
+	GraphId,
+	GraphReferenceValue,
+	Inputs,
+	InternalProcessContext,
+	NodeGraph,
+	ObjectDataValue,
+	Outputs,
+	PortId,
+	Rivet,
+} from '@ironclad/rivet-core';
+import { stringify } from 'superjson';
+import { isObjectDataValue } from '../../helpers/dataValueHelpers';
+import {
+	createGraphDigest,
+	createObjectDigest,
+	getCacheStorageForNamespace,
+	getCachedItem,
+	setCachedItem,
+} from '../../helpers/cacheStorage';
+import { runWithRetry, type RetryPolicy } from '../../helpers/retryPolicy';
+import { sleep } from '../../helpers/sleep';
+import { validateGraphInput } from './validateGraphInputItem';
+
+const callGraphConnectionIds = {
+	graph: 'graph' as PortId,
+	inputs: 'inputs' as PortId,
+	outputs: 'outputs' as PortId,
+} as const;
+
+/**
+ * The outputs a pipeline stage sets.  The pipeline nodes use the same port ids, and return the outputs of a failed stage as is.
+ */
+export const pipelineStageConnectionIds = {
+	pipelineOutput: 'pipelineOutput' as PortId,
+	intermediateStageOutputs: 'intermediateStageOutputs' as PortId,
+	error: 'error' as PortId,
+} as const;
+
+/**
+ * Runs a pipeline stage graph: validates the stage input against the graph's inputs, uses the cache if enabled, and
+ * retries the graph according to the retry policy.  The stage is logged to `intermediateStageLogsOut`.
+ * @returns The stage output in `pipelineOutput`, or `error` if the stage failed.
+ */
+export const processPipelineStage = async (
+	rivet: typeof Rivet,
+	nodeInputs: {
+		context: InternalProcessContext;
+		nodeInputData: Inputs;
+		enableCache: boolean;
+	},
+	stage: {
+		stageInput: Record<string, unknown>;
+		stageGraph: NodeGraph;
+		stageGraphRef: {
+			graphId: string;
+			graphName: string;
+		};
+		stageIdentifier: string;
+		/**
+		 * Defaults to a single attempt
+		 */
+		retryPolicy?: RetryPolicy;
+		/**
+		 * Recorded in the stage log, so the log shows whether the stage graph or its fallback graph ran
+		 */
+		stagePath?: 'primary' | 'fallback';
+		/**
+		 * The key mapping rules applied to the stage input, recorded in the stage log
+		 */
+		keyMapping?: string[];
+	},
+	intermediateStageLogsOut: Record<string, unknown>[]
+): Promise<Outputs> => {
+	const outputs: Outputs = {};
+	const { stageInput, stageGraphRef, stageIdentifier, stageGraph, stagePath, keyMapping } = stage;
+	const retryPolicy: RetryPolicy = stage.retryPolicy ?? {
+		maxAttempts: 1,
+		baseDelayMs: 0,
+		backoffMultiplier: 1,
+		jitter: 0,
+		retryableErrors: [],
+	};
+	let attempts = 0;
+	const { context, nodeInputData, enableCache } = nodeInputs;
+
+	if (!stageGraphRef.graphId || !stageGraphRef.graphName || stageGraph == null) {
+		outputs[pipelineStageConnectionIds.pipelineOutput] = {
+			type: 'control-flow-excluded',
+			value: undefined,
+		};
+		outputs[pipelineStageConnectionIds.error] = {
+			type: 'string',
+			value: `Graph reference is invalid for graph ${stageIdentifier}`,
+		};
+		return outputs;
+	}
+
+	if (typeof stageInput !== 'object' || stageInput == null || Array.isArray(stageInput)) {
+		outputs[pipelineStageConnectionIds.pipelineOutput] = {
+			type: 'control-flow-excluded',
+			value: undefined,
+		};
+		outputs[pipelineStageConnectionIds.error] = {
+			type: 'string',
+			value: rivet.dedent`Input must be an object.  Each stage's input should match the prior stage's output shape.  Error: ${stageIdentifier}`,
+		};
+		return outputs;
+	}
+
+	// validate input items to make sure they have all  keys of the  graph's input ports
+	const missingKeys = new Set<string>();
+	const notDataValue = new Set<string>();
+	const invalidInputs = validateGraphInput(rivet, stageInput, stageGraph, missingKeys, notDataValue);
+
+	if (invalidInputs) {
+		outputs[pipelineStageConnectionIds.pipelineOutput] = {
+			type: 'control-flow-excluded',
+			value: undefined,
+		};
+		let errorMessage = `Input validation error for ${stageIdentifier}: `;
+		if (missingKeys.size > 0) {
+			errorMessage += `Missing inputs required for graph: ${Array.from(missingKeys)
+				.map((key) => key)
+				.join('; ')}`;
+		}
+		if (notDataValue.size > 0) {
+			errorMessage += rivet.dedent`Invalid Inputs, make sure each input item is a ObjectDataValue::
+			${Array.from(notDataValue)
+				.map((value) => stringify(value))
+				.join('; ')}`;
+		}
+		outputs[pipelineStageConnectionIds.error] = {
+			type: 'string',
+			value: errorMessage,
+		};
+		return outputs;
+	}
+
+	const aborted = context.signal.aborted;
+
+	/**
+	 * Execute the graph
+	 */
+	try {
+		if (!aborted) {
+			console.log(`Pipeline Node ${stageIdentifier}: Running graph ${stageGraphRef.graphName}`);
+			// create a call graph node
+			const node = rivet.callGraphNode.impl.create();
+			const impl = rivet.globalRivetNodeRegistry.createDynamicImpl(node);
+
+			// set the inputs
+			let stageGraphInputDataValue: ObjectDataValue = {
+				type: 'object',
+				value: stageInput as Record<string, unknown>,
+			};
+			/**
+			 * in case the item is already a DataValue, use it as is
+			 */
+			if (isObjectDataValue(rivet, stageInput)) {
+				stageGraphInputDataValue = stageInput;
+			}
+
+			const graphDataValue: GraphReferenceValue = {
+				type: 'graph-reference',
+				value: {
+					graphId: stageGraphRef.graphId as GraphId,
+					graphName: stageGraphRef.graphName,
+				},
+			};
+			const stageGraphInputs: Inputs = {
+				[callGraphConnectionIds.graph]: graphDataValue,
+				[callGraphConnectionIds.inputs]: stageGraphInputDataValue,
+			};
+
+			/**
+			 * Setup cache storage for the graph
+			 */
+			const graphRevalidationDigest = await createGraphDigest([stageGraph]);
+			const cacheNamespace = stageGraphRef.graphId as string;
+			const cacheStorage = getCacheStorageForNamespace(cacheNamespace, graphRevalidationDigest);
+			const cacheKey = await createObjectDigest(stageInput);
+
+			let graphOutput: Outputs | null = null;
+			let cacheHit = false;
+			if (enableCache) {
+				const cachedValue = await getCachedItem<Outputs>(cacheStorage, cacheKey);
+
+				if (cachedValue != null) {
+					await sleep(10);
+					graphOutput = cachedValue;
+					cacheHit = true;
+				}
+			}
+
+			if (graphOutput == null) {
+				const result = await runWithRetry(
+					retryPolicy,
+					async (attempt) => {
+						attempts = attempt;
+						if (attempt > 1) {
+							console.log(
+								`Pipeline Node ${stageIdentifier}: Retrying graph ${stageGraphRef.graphName}, attempt ${attempt} of ${retryPolicy.maxAttempts}`
+							);
+						}
+						return impl.process(stageGraphInputs, context);
+					},
+					() => context.signal.aborted,
+					context.signal
+				);
+				if (!result.ok) {
+					throw result.error;
+				}
+				graphOutput = result.value;
+
+				if (enableCache) {
+					/**
+					 * Set the item in the cache
+					 */
+					setCachedItem(cacheStorage, cacheKey, graphOutput);
+				}
+			}
+
+			const nextStageInput = rivet.coerceType(graphOutput[callGraphConnectionIds.outputs], 'object');
+			intermediateStageLogsOut.push({
+				identifier: stageIdentifier,
+				graphName: stageGraphRef.graphName,
+				graphOutput: nextStageInput,
+				graphInput: stageInput,
+				...(stagePath != null ? { path: stagePath } : {}),
+				...(keyMapping != null && keyMapping.length > 0 ? { keyMapping } : {}),
+				attempts: cacheHit ? 0 : attempts,
+			});
+
+			outputs[pipelineStageConnectionIds.pipelineOutput] = {
+				type: 'object',
+				value: nextStageInput,
+			};
+			outputs[pipelineStageConnectionIds.intermediateStageOutputs] = {
+				type: 'object[]',
+				value: intermediateStageLogsOut,
+			};
+			return outputs;
+		}
+		/**
+		 * If aborted then
+		 */
+		outputs[pipelineStageConnectionIds.pipelineOutput] = {
+			type: 'control-flow-excluded',
+			value: undefined,
+		};
+		outputs[pipelineStageConnectionIds.error] = {
+			type: 'string',
+			value: `Aborted ${stageGraphRef.graphName}`,
+		};
+		return outputs;
+	} catch (err) {
+		const message = rivet.getError(err).message;
+		if (stagePath != null) {
+			// record the failed stage, so the log shows why a fallback graph ran
+			intermediateStageLogsOut.push({
+				identifier: stageIdentifier,
+				graphName: stageGraphRef.graphName,
+				graphInput: stageInput,
+				path: stagePath,
+				...(keyMapping != null && keyMapping.length > 0 ? { keyMapping } : {}),
+				attempts,
+				error: message,
+			});
+		}
+
+		outputs[pipelineStageConnectionIds.pipelineOutput] = {
+			type: 'control-flow-excluded',
+			value: undefined,
+		};
+		outputs[pipelineStageConnectionIds.error] = {
+			type: 'string',
+			value: rivet.dedent`Error running graph ${stageGraphRef.graphName}${attempts > 1 ? ` after ${attempts} attempts` : ''}.
+			Message::: ${message}
+			Input::: JSON ${JSON.stringify(stageInput, null, 2)}
+			`,
+		};
+		return outputs;
+	}
+};
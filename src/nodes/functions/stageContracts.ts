@@ -0,0 +1,60 @@
+import type { NodeGraph, Rivet } from '@ironclad/rivet-core';
+import { getGraphInputPorts, getGraphOutputPorts } from './graphInputPorts';
+import { mapGraphPorts, type StageKeyMappingRule } from './stageKeyMapping';
+
+export type StageContractMismatch = {
+	/**
+	 * The stage boundary, e.g. `Stage 0 → Stage 1`
+	 */
+	boundary: string;
+	/**
+	 * Graph inputs of the consumer without a default value that nothing provides
+	 */
+	missing: string[];
+	/**
+	 * Graph outputs of the producer that the consumer has no graph input for
+	 */
+	unused: string[];
+	/**
+	 * Keys whose output data type can't be coerced to the input data type, as `<id> (<output type> → <input type>)`
+	 */
+	mismatchedTypes: string[];
+};
+
+/**
+ * Checks the graph outputs of a stage against the graph inputs of the stage it feeds, at design time.
+ * @param rivet - The Rivet object.
+ * @param boundary - The label of the stage boundary.
+ * @param producer - The graph whose outputs are the input of the consumer, or undefined if the consumer only gets the provided keys.
+ * @param consumer - The graph that receives the input.
+ * @param providedKeys - Keys the pipeline adds to every input of the consumer, e.g. `pipelineInput`.
+ * @param mapping - The key mapping rules of the consumer, applied to the producer outputs.
+ * @returns The mismatch, or undefined if the stages match.
+ */
+export const checkStageContract = (
+	rivet: typeof Rivet,
+	boundary: string,
+	producer: NodeGraph | undefined,
+	consumer: NodeGraph,
+	providedKeys: string[],
+	mapping: { rule: StageKeyMappingRule }[] = []
+): StageContractMismatch | undefined => {
+	const outputs = mapGraphPorts(producer ? getGraphOutputPorts(producer) : [], mapping);
+	const inputs = getGraphInputPorts(consumer);
+
+	const missing = inputs
+		.filter((f) => !f.hasDefaultValue && !providedKeys.includes(f.id) && !outputs.some((s) => s.id === f.id))
+		.map((m) => m.id);
+	const unused = outputs
+		.filter((f) => !providedKeys.includes(f.id) && !inputs.some((s) => s.id === f.id))
+		.map((m) => m.id);
+	const mismatchedTypes = outputs
+		.map((output) => ({ output, input: inputs.find((f) => f.id === output.id) }))
+		.filter(({ output, input }) => input != null && !rivet.canBeCoerced(output.dataType, input.dataType))
+		.map(({ output, input }) => `${output.id} (${output.dataType} → ${input?.dataType})`);
+
+	if (missing.length === 0 && unused.length === 0 && mismatchedTypes.length === 0) {
+		return undefined;
+	}
+	return { boundary, missing, unused, mismatchedTypes };
+};
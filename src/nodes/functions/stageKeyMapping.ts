@@ -0,0 +1,131 @@
+import type { DataValue, Rivet } from '@ironclad/rivet-core';
+import { isObjectDataValue } from '../../helpers/dataValueHelpers';
+import type { GraphPort } from './graphInputPorts';
+
+export type StageKeyMappingRule =
+	| { type: 'rename'; from: string; to: string }
+	| { type: 'drop'; key: string }
+	| { type: 'pipelineInput'; key: string; from: string }
+	| { type: 'constant'; key: string; value: DataValue };
+
+/**
+ * The rules of each stage, keyed by the stage whose input they map: `pre`, the stage index, or `post-<index>`
+ */
+export type StageKeyMappings = Map<string, { rule: StageKeyMappingRule; text: string }[]>;
+
+/**
+ * Parses the key mapping rules, one per entry as `<stage>: <rule>`.  The rules are applied to the input of the stage,
+ * in order:
+ * - `1: summary -> document` renames `summary` to `document`
+ * - `1: -extra` drops `extra`
+ * - `1: topic <- pipelineInput.subject` passes `subject` of the pipeline input through as `topic`, `topic <- pipelineInput` keeps the name
+ * - `1: tone = "formal"` injects a constant, the value is parsed as JSON and falls back to a string
+ * @param rivet - The Rivet object.
+ * @param entries - The rules.
+ * @returns The rules by stage, or an error if a rule can't be parsed.
+ */
+export const parseStageKeyMappings = (
+	rivet: typeof Rivet,
+	entries: string[]
+): { mappings: StageKeyMappings } | { error: string } => {
+	const mappings: StageKeyMappings = new Map();
+
+	for (const entry of entries.map((m) => m.trim()).filter((f) => f !== '')) {
+		const match = /^(pre|\d+|post-\d+)\s*:\s*(.+)$/.exec(entry);
+		if (match == null) {
+			return {
+				error: `Invalid key mapping \`${entry}\`.  Mappings start with the stage whose input they map: \`pre\`, the stage index, or \`post-<index>\`, e.g. \`1: summary -> document\``,
+			};
+		}
+		const [, stage, ruleText] = match;
+
+		const dropMatch = /^-\s*(\S+)$/.exec(ruleText);
+		const renameMatch = /^(\S+)\s*->\s*(\S+)$/.exec(ruleText);
+		const pipelineInputMatch = /^(\S+)\s*<-\s*pipelineInput(?:\.(\S+))?$/.exec(ruleText);
+		const constantMatch = /^([^\s=]+)\s*=\s*(.*)$/.exec(ruleText);
+
+		let rule: StageKeyMappingRule | undefined;
+		if (dropMatch) {
+			rule = { type: 'drop', key: dropMatch[1] };
+		} else if (renameMatch) {
+			rule = { type: 'rename', from: renameMatch[1], to: renameMatch[2] };
+		} else if (pipelineInputMatch) {
+			rule = {
+				type: 'pipelineInput',
+				key: pipelineInputMatch[1],
+				from: pipelineInputMatch[2] ?? pipelineInputMatch[1],
+			};
+		} else if (constantMatch) {
+			let value: unknown = constantMatch[2];
+			try {
+				value = JSON.parse(constantMatch[2]);
+			} catch {
+				// not JSON, use the text as is
+			}
+			rule = { type: 'constant', key: constantMatch[1], value: rivet.inferType(value) };
+		}
+		if (rule == null) {
+			return {
+				error: `Invalid key mapping \`${entry}\`.  Rules are \`from -> to\`, \`-key\`, \`key <- pipelineInput.from\` or \`key = value\``,
+			};
+		}
+
+		mappings.set(stage, [...(mappings.get(stage) ?? []), { rule, text: ruleText }]);
+	}
+
+	return { mappings };
+};
+
+/**
+ * Applies the key mapping rules of a stage to its input.  Renaming or dropping a key that isn't in the input is a no-op.
+ * @param rivet - The Rivet object.
+ * @param input - The stage input.
+ * @param rules - The rules of the stage.
+ * @returns The mapped stage input.
+ */
+export const applyStageKeyMapping = (
+	rivet: typeof Rivet,
+	input: Record<string, unknown>,
+	rules: { rule: StageKeyMappingRule }[]
+): Record<string, unknown> => {
+	const mapped = { ...input };
+	for (const { rule } of rules) {
+		if (rule.type === 'rename' && rule.from in mapped) {
+			mapped[rule.to] = mapped[rule.from];
+			delete mapped[rule.from];
+		} else if (rule.type === 'drop') {
+			delete mapped[rule.key];
+		} else if (rule.type === 'pipelineInput') {
+			const pipelineInput = mapped.pipelineInput;
+			const value = (
+				(isObjectDataValue(rivet, pipelineInput) ? pipelineInput.value : pipelineInput) as
+					| Record<string, unknown>
+					| undefined
+			)?.[rule.from];
+			if (value !== undefined) {
+				mapped[rule.key] = value;
+			}
+		} else if (rule.type === 'constant') {
+			mapped[rule.key] = rule.value;
+		}
+	}
+	return mapped;
+};
+
+/**
+ * Applies the key mapping rules of a stage to the graph output ports that feed it, for the design time contract check.
+ */
+export const mapGraphPorts = (ports: GraphPort[], rules: { rule: StageKeyMappingRule }[]): GraphPort[] => {
+	let mapped = [...ports];
+	for (const { rule } of rules) {
+		if (rule.type === 'rename') {
+			mapped = mapped.map((m) => (m.id === rule.from ? { ...m, id: rule.to } : m));
+		} else if (rule.type === 'drop') {
+			mapped = mapped.filter((f) => f.id !== rule.key);
+		} else {
+			const dataType = rule.type === 'constant' ? rule.value.type : 'any';
+			mapped = [...mapped.filter((f) => f.id !== rule.key), { id: rule.key, dataType }];
+		}
+	}
+	return mapped;
+};